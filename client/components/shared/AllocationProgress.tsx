@@ -0,0 +1,63 @@
+'use client';
+
+import { CheckCircle2, Circle, Loader2, Server } from "lucide-react";
+import type { AllocationJob, AllocationStep } from "@/lib/allocationStream";
+
+// Optional steps only run for some allocations, so they are listed once the job reaches them
+const allocationSteps: { step: AllocationStep; label: string; optional?: boolean }[] = [
+    { step: 'RESUME', label: 'Waking up your hibernated machine', optional: true },
+    { step: 'REUSE_HELD', label: 'Reconnecting to your previous machine', optional: true },
+    { step: 'POP_SPARE', label: 'Reserving a machine' },
+    { step: 'RESOLVE_IP', label: 'Resolving machine address' },
+    { step: 'RESTORE_SNAPSHOT', label: 'Restoring your snapshot', optional: true },
+    { step: 'SSM_SETUP', label: 'Mounting your persistent workspace' },
+    { step: 'HEARTBEAT_TOKEN', label: 'Securing workspace heartbeats' },
+    { step: 'NGINX', label: 'Configuring your HTTPS domain' },
+    { step: 'TAGGING', label: 'Assigning machine' },
+    { step: 'PROTECTION', label: 'Protecting machine from scale-in' },
+];
+
+interface AllocationProgressProps {
+    job: AllocationJob | null;
+    warmSpares: number | null;
+}
+
+export default function AllocationProgress({ job, warmSpares }: AllocationProgressProps) {
+    const visibleSteps = allocationSteps.filter(({ step, optional }) =>
+        !optional || job?.step === step || job?.steps.some(entry => entry.step === step)
+    );
+    const currentIndex = job ? visibleSteps.findIndex(({ step }) => step === job.step) : -1;
+    const isFinished = job?.status === 'SUCCEEDED';
+
+    return (
+        <div className="space-y-3 text-left">
+            <ul className="space-y-2">
+                {visibleSteps.map(({ step, label }, index) => {
+                    const isDone = isFinished || index < currentIndex;
+                    const isCurrent = !isFinished && index === currentIndex;
+
+                    return (
+                        <li key={step} className="flex items-center space-x-3 text-sm">
+                            {isDone ? (
+                                <CheckCircle2 className="h-4 w-4 text-green-500" />
+                            ) : isCurrent ? (
+                                <Loader2 className="h-4 w-4 text-blue-500 animate-spin" />
+                            ) : (
+                                <Circle className="h-4 w-4 text-slate-300" />
+                            )}
+                            <span className={isDone || isCurrent ? 'text-slate-900' : 'text-slate-400'}>
+                                {label}
+                            </span>
+                        </li>
+                    );
+                })}
+            </ul>
+            {warmSpares !== null && (
+                <div className="flex items-center space-x-2 text-xs text-slate-500">
+                    <Server className="h-3 w-3" />
+                    <span>{warmSpares} warm spare{warmSpares === 1 ? '' : 's'} available</span>
+                </div>
+            )}
+        </div>
+    );
+}
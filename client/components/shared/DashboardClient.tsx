@@ -2,11 +2,13 @@
 'use client';
 
 import { useAuth } from "@clerk/nextjs";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import axios from "axios";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import AllocationProgress from "@/components/shared/AllocationProgress";
+import { streamAllocationEvents, type AllocationEvent, type AllocationJob, type QueueStatus } from "@/lib/allocationStream";
 import {
     Terminal,
     Server,
@@ -18,7 +20,8 @@ import {
     RefreshCw,
     Activity,
     Users,
-    HardDrive
+    HardDrive,
+    Power
 } from "lucide-react";
 
 interface DashboardClientProps {
@@ -40,15 +43,38 @@ interface SystemStatus {
     asgCapacity: number;
 }
 
+interface IdleTimeoutSetting {
+    timeoutMs: number;
+    preferredMs: number | null;
+    bounds: { minMs: number; maxMs: number };
+}
+
 type WorkspaceStatus = 'idle' | 'loading' | 'running' | 'processing' | 'error';
 
+// Choices offered in the idle timeout selector, in minutes; only the ones
+// inside the user's allowed bounds are shown
+const IDLE_TIMEOUT_CHOICES_MIN = [5, 10, 15, 30, 60, 120, 240, 480];
+
+const formatMinutes = (ms: number) => {
+    const minutes = Math.round(ms / 60000);
+    return minutes >= 60 && minutes % 60 === 0 ? `${minutes / 60} hr` : `${minutes} min`;
+};
+
 export default function DashboardClient({ firstName }: DashboardClientProps) {
     const { getToken } = useAuth();
     const [workspaceStatus, setWorkspaceStatus] = useState<WorkspaceStatus>('idle');
     const [workspaceData, setWorkspaceData] = useState<WorkspaceData | null>(null);
     const [systemStatus, setSystemStatus] = useState<SystemStatus | null>(null);
     const [error, setError] = useState<string | null>(null);
-    const [isPolling, setIsPolling] = useState(false);
+    const [isReleasing, setIsReleasing] = useState(false);
+    const [allocationJob, setAllocationJob] = useState<AllocationJob | null>(null);
+    const [warmSpares, setWarmSpares] = useState<number | null>(null);
+    const [queueStatus, setQueueStatus] = useState<QueueStatus | null>(null);
+    const [idleTimeout, setIdleTimeout] = useState<IdleTimeoutSetting | null>(null);
+    const [isSavingIdleTimeout, setIsSavingIdleTimeout] = useState(false);
+    const streamRef = useRef<AbortController | null>(null);
+    // Stream callbacks outlive renders, so they read the latest status from a ref
+    const workspaceStatusRef = useRef<WorkspaceStatus>('idle');
 
     const baseUrl = process.env.NEXT_PUBLIC_SERVER_BASE_URL;
 
@@ -78,7 +104,14 @@ export default function DashboardClient({ firstName }: DashboardClientProps) {
                 withCredentials: true
             });
 
-            if (response.data.success && response.data.data) {
+            if (response.data.success && response.data.data?.state === 'QUEUED') {
+                setQueueStatus({
+                    position: response.data.data.queuePosition,
+                    estimatedWaitMs: response.data.data.estimatedWaitMs
+                });
+                updateWorkspaceStatus('processing');
+                await openAllocationStream();
+            } else if (response.data.success && response.data.data?.state === 'RUNNING') {
                 setWorkspaceData({
                     instanceId: response.data.data.instanceId,
                     publicUrl: response.data.data.publicUrl,
@@ -86,7 +119,7 @@ export default function DashboardClient({ firstName }: DashboardClientProps) {
                     lastSeen: response.data.data.lastSeen,
                     ts: response.data.data.ts
                 });
-                setWorkspaceStatus('running');
+                updateWorkspaceStatus('running');
             }
         } catch (error) {
             // If no existing workspace, that's fine
@@ -94,10 +127,32 @@ export default function DashboardClient({ firstName }: DashboardClientProps) {
         }
     };
 
-    // Handle machine allocation
-    const handleAllocateMachine = async () => {
+    // Fetch the idle timeout that applies to the current workspace
+    const fetchIdleTimeout = async () => {
+        try {
+            const token = await getToken();
+            if (!token) return;
+
+            const response = await axios.get(`${baseUrl}/api/v1/idle-timeout`, {
+                headers: {
+                    Authorization: `Bearer ${token}`,
+                    "Content-Type": "application/json"
+                },
+                withCredentials: true
+            });
+
+            if (response.data.success) {
+                setIdleTimeout(response.data.data);
+            }
+        } catch (error) {
+            console.error("Failed to fetch idle timeout:", error);
+        }
+    };
+
+    // Save the user's idle timeout; null goes back to the default
+    const handleIdleTimeoutChange = async (timeoutMs: number | null) => {
         setError(null);
-        setWorkspaceStatus('loading');
+        setIsSavingIdleTimeout(true);
 
         try {
             const token = await getToken();
@@ -108,7 +163,7 @@ export default function DashboardClient({ firstName }: DashboardClientProps) {
                 throw new Error("Authentication token is missing");
             }
 
-            const response = await axios.post(`${baseUrl}/api/v1/machines/allocate`, {}, {
+            const response = await axios.put(`${baseUrl}/api/v1/idle-timeout`, { timeoutMs }, {
                 headers: {
                     Authorization: `Bearer ${token}`,
                     "Content-Type": "application/json"
@@ -116,75 +171,206 @@ export default function DashboardClient({ firstName }: DashboardClientProps) {
                 withCredentials: true
             });
 
-            if (response.status === 200 && response.data.success) {
-                setWorkspaceData({
-                    instanceId: response.data.data.instanceId,
-                    publicUrl: response.data.data.publicUrl,
-                    state: 'RUNNING'
-                });
-                setWorkspaceStatus('running');
-            } else if (response.status === 202 && response.data.status === 'processing') {
-                setWorkspaceStatus('processing');
-                setError(response.data.message);
-                // Start polling for availability
-                startPolling();
+            if (response.data.success) {
+                setIdleTimeout(response.data.data);
             } else {
-                setWorkspaceStatus('error');
-                setError(response.data.message || 'Failed to allocate machine');
+                setError(response.data.message || 'Failed to update idle timeout');
             }
         } catch (error: any) {
-            setWorkspaceStatus('error');
             if (axios.isAxiosError(error)) {
-                setError(error.response?.data?.message || error.message);
+                setError(error.response?.data?.error || error.response?.data?.message || error.message);
             } else {
                 setError(error.message || 'Unexpected error occurred');
             }
+        } finally {
+            setIsSavingIdleTimeout(false);
         }
     };
 
-    // Start polling for machine availability
-    const startPolling = () => {
-        if (isPolling) return;
-
-        setIsPolling(true);
-        const pollInterval = setInterval(async () => {
-            try {
-                const token = await getToken();
-                if (!token) return;
-
-                const response = await axios.post(`${baseUrl}/api/v1/machines/allocate`, {}, {
-                    headers: {
-                        Authorization: `Bearer ${token}`,
-                        "Content-Type": "application/json"
-                    },
-                    withCredentials: true
-                });
+    const updateWorkspaceStatus = (status: WorkspaceStatus) => {
+        workspaceStatusRef.current = status;
+        setWorkspaceStatus(status);
+    };
+
+    const closeAllocationStream = () => {
+        streamRef.current?.abort();
+        streamRef.current = null;
+    };
+
+    const handleAllocationError = (error: any) => {
+        closeAllocationStream();
+        updateWorkspaceStatus('error');
+        if (axios.isAxiosError(error)) {
+            setError(error.response?.data?.message || error.message);
+        } else {
+            setError(error.message || 'Unexpected error occurred');
+        }
+    };
+
+    // Request an allocation job; progress arrives on the allocation stream
+    const requestAllocation = async () => {
+        const token = await getToken();
+        if (!baseUrl) {
+            throw new Error("Server base URL is not defined");
+        }
+        if (!token) {
+            throw new Error("Authentication token is missing");
+        }
+
+        await axios.post(`${baseUrl}/api/v1/machines/allocate`, {}, {
+            headers: {
+                Authorization: `Bearer ${token}`,
+                "Content-Type": "application/json"
+            },
+            withCredentials: true
+        });
+    };
+
+    const applyAllocationResult = (job: AllocationJob) => {
+        if (job.result?.success) {
+            setWorkspaceData({
+                instanceId: job.result.data.instanceId,
+                publicUrl: job.result.data.publicUrl,
+                state: 'RUNNING'
+            });
+            updateWorkspaceStatus('running');
+            setError(null);
+            closeAllocationStream();
+        } else if (job.result?.status === 'processing') {
+            // The server could not queue us, so the user has to retry
+            updateWorkspaceStatus('processing');
+            setError(job.result.message);
+            closeAllocationStream();
+        } else {
+            updateWorkspaceStatus('error');
+            setError(job.result?.message || 'Failed to allocate machine');
+            closeAllocationStream();
+        }
+    };
+
+    const handleAllocationEvent = (event: AllocationEvent) => {
+        switch (event.type) {
+            case 'job':
+                setAllocationJob(event.job);
+                if (event.job.status === 'QUEUED') {
+                    updateWorkspaceStatus('processing');
+                } else if (event.job.status === 'RUNNING' && workspaceStatusRef.current === 'processing') {
+                    // A machine was handed to us from the queue
+                    setQueueStatus(null);
+                    updateWorkspaceStatus('loading');
+                }
+                break;
+            case 'queue':
+                setQueueStatus({ position: event.position, estimatedWaitMs: event.estimatedWaitMs });
+                break;
+            case 'complete':
+                setAllocationJob(event.job);
+                applyAllocationResult(event.job);
+                break;
+            case 'pool':
+                setWarmSpares(event.warmSpares);
+                setSystemStatus(prev => prev ? { ...prev, warmSpares: event.warmSpares } : prev);
+                break;
+        }
+    };
+
+    // Resolves once the server has subscribed us, so no progress event is missed
+    const openAllocationStream = async () => {
+        if (streamRef.current) return;
+
+        const token = await getToken();
+        if (!baseUrl) {
+            throw new Error("Server base URL is not defined");
+        }
+        if (!token) {
+            throw new Error("Authentication token is missing");
+        }
 
-                if (response.data.success) {
-                    setWorkspaceData({
-                        instanceId: response.data.data.instanceId,
-                        publicUrl: response.data.data.publicUrl,
-                        state: 'RUNNING'
-                    });
-                    setWorkspaceStatus('running');
-                    setError(null);
-                    clearInterval(pollInterval);
-                    setIsPolling(false);
+        const controller = new AbortController();
+        streamRef.current = controller;
+
+        await new Promise<void>((resolve, reject) => {
+            let opened = false;
+            streamAllocationEvents({
+                url: `${baseUrl}/api/v1/allocations/events`,
+                token,
+                signal: controller.signal,
+                onOpen: () => {
+                    opened = true;
+                    resolve();
+                },
+                onEvent: handleAllocationEvent
+            }).then(() => {
+                // The server closed the stream; surface it like a dropped connection
+                throw new Error('Lost connection to allocation progress. Please try again.');
+            }).catch((error) => {
+                if (controller.signal.aborted) return;
+                if (streamRef.current === controller) {
+                    streamRef.current = null;
+                }
+                if (!opened) {
+                    reject(error);
+                } else if (workspaceStatusRef.current === 'loading' || workspaceStatusRef.current === 'processing') {
+                    handleAllocationError(new Error('Lost connection to allocation progress. Please try again.'));
                 }
-            } catch (error) {
-                // Continue polling
+            });
+        });
+    };
+
+    // Handle machine allocation
+    const handleAllocateMachine = async () => {
+        setError(null);
+        setAllocationJob(null);
+        setQueueStatus(null);
+        updateWorkspaceStatus('loading');
+
+        try {
+            await openAllocationStream();
+            await requestAllocation();
+        } catch (error: any) {
+            handleAllocationError(error);
+        }
+    };
+
+    // Release workspace back to the pool
+    const handleReleaseMachine = async () => {
+        setError(null);
+        setIsReleasing(true);
+
+        try {
+            const token = await getToken();
+            if (!baseUrl) {
+                throw new Error("Server base URL is not defined");
+            }
+            if (!token) {
+                throw new Error("Authentication token is missing");
+            }
+
+            const response = await axios.post(`${baseUrl}/api/v1/machines/release`, {}, {
+                headers: {
+                    Authorization: `Bearer ${token}`,
+                    "Content-Type": "application/json"
+                },
+                withCredentials: true
+            });
+
+            if (response.data.success) {
+                setWorkspaceData(null);
+                setIdleTimeout(null);
+                updateWorkspaceStatus('idle');
+                fetchSystemStatus();
+            } else {
+                setError(response.data.message || 'Failed to stop workspace');
             }
-        }, 30000); // Poll every 5 seconds
-
-        // Stop polling after 2 minutes
-        setTimeout(() => {
-            clearInterval(pollInterval);
-            setIsPolling(false);
-            if (workspaceStatus === 'processing') {
-                setWorkspaceStatus('error');
-                setError('Timeout: Machine allocation took too long. Please try again.');
+        } catch (error: any) {
+            if (axios.isAxiosError(error)) {
+                setError(error.response?.data?.message || error.message);
+            } else {
+                setError(error.message || 'Unexpected error occurred');
             }
-        }, 120000);
+        } finally {
+            setIsReleasing(false);
+        }
     };
 
     // Open workspace
@@ -207,9 +393,29 @@ export default function DashboardClient({ firstName }: DashboardClientProps) {
 
         // Refresh system status every 10 minutes   
         const interval = setInterval(fetchSystemStatus, 600000);
-        return () => clearInterval(interval);
+        return () => {
+            clearInterval(interval);
+            closeAllocationStream();
+        };
     }, []);
 
+    // The idle timeout can only be read and changed while a workspace is held
+    useEffect(() => {
+        if (workspaceStatus === 'running') {
+            fetchIdleTimeout();
+        }
+    }, [workspaceStatus]);
+
+    const idleTimeoutChoices = idleTimeout
+        ? IDLE_TIMEOUT_CHOICES_MIN
+            .map(minutes => minutes * 60000)
+            .filter(ms => ms >= idleTimeout.bounds.minMs && ms <= idleTimeout.bounds.maxMs)
+        : [];
+    if (idleTimeout?.preferredMs && !idleTimeoutChoices.includes(idleTimeout.preferredMs)) {
+        idleTimeoutChoices.push(idleTimeout.preferredMs);
+        idleTimeoutChoices.sort((a, b) => a - b);
+    }
+
     const getStatusColor = (status: WorkspaceStatus) => {
         switch (status) {
             case 'running': return 'bg-green-500';
@@ -340,7 +546,10 @@ export default function DashboardClient({ firstName }: DashboardClientProps) {
                             {workspaceStatus === 'loading' && (
                                 <div className="text-center py-8">
                                     <Loader2 className="h-12 w-12 text-blue-500 mx-auto mb-4 animate-spin" />
-                                    <p className="text-slate-600 mb-2">Starting your workspace...</p>
+                                    <p className="text-slate-600 mb-4">Starting your workspace...</p>
+                                    <div className="max-w-xs mx-auto mb-4">
+                                        <AllocationProgress job={allocationJob} warmSpares={warmSpares} />
+                                    </div>
                                     <p className="text-sm text-slate-500">This usually takes 30-60 seconds</p>
                                 </div>
                             )}
@@ -350,20 +559,23 @@ export default function DashboardClient({ firstName }: DashboardClientProps) {
                                     <Clock className="h-12 w-12 text-yellow-500 mx-auto mb-4" />
                                     <p className="text-slate-600 mb-2">Scaling up infrastructure...</p>
                                     <p className="text-sm text-slate-500">No warm spares available, launching new instance</p>
+                                    {queueStatus && (
+                                        <>
+                                            <p className="text-sm text-slate-700 mt-2">
+                                                You are #{queueStatus.position} in line · about {Math.max(1, Math.round(queueStatus.estimatedWaitMs / 60000))} min wait
+                                            </p>
+                                            <p className="text-sm text-slate-500 mt-1 flex items-center justify-center">
+                                                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                                                Your workspace will start automatically once a machine is ready
+                                            </p>
+                                        </>
+                                    )}
                                     <Button
                                         onClick={handleAllocateMachine}
                                         variant="outline"
                                         className="mt-4"
-                                        disabled={isPolling}
                                     >
-                                        {isPolling ? (
-                                            <>
-                                                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                                                Checking...
-                                            </>
-                                        ) : (
-                                            'Retry'
-                                        )}
+                                        Retry
                                     </Button>
                                 </div>
                             )}
@@ -383,6 +595,27 @@ export default function DashboardClient({ firstName }: DashboardClientProps) {
                                             <ExternalLink className="h-4 w-4 mr-2" />
                                             Open VS Code
                                         </Button>
+                                        <Button
+                                            onClick={handleReleaseMachine}
+                                            variant="outline"
+                                            className="w-full mt-2"
+                                            disabled={isReleasing}
+                                        >
+                                            {isReleasing ? (
+                                                <>
+                                                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                                                    Stopping...
+                                                </>
+                                            ) : (
+                                                <>
+                                                    <Power className="h-4 w-4 mr-2" />
+                                                    Stop Workspace
+                                                </>
+                                            )}
+                                        </Button>
+                                        {error && (
+                                            <p className="text-sm text-red-600 mt-2">{error}</p>
+                                        )}
                                     </div>
                                     <div className="mt-4 p-3 bg-slate-50 rounded-lg">
                                         <div className="text-sm space-y-1">
@@ -400,6 +633,25 @@ export default function DashboardClient({ firstName }: DashboardClientProps) {
                                                     {workspaceData.state}
                                                 </Badge>
                                             </div>
+                                            {idleTimeout && (
+                                                <div className="flex justify-between items-center">
+                                                    <label htmlFor="idle-timeout" className="text-slate-500">Stop when idle for:</label>
+                                                    <select
+                                                        id="idle-timeout"
+                                                        className="border border-slate-200 rounded-md bg-white px-2 py-1 text-xs"
+                                                        value={idleTimeout.preferredMs ?? ''}
+                                                        disabled={isSavingIdleTimeout}
+                                                        onChange={(e) => handleIdleTimeoutChange(e.target.value ? Number(e.target.value) : null)}
+                                                    >
+                                                        <option value="">
+                                                            Default{idleTimeout.preferredMs === null ? ` (${formatMinutes(idleTimeout.timeoutMs)})` : ''}
+                                                        </option>
+                                                        {idleTimeoutChoices.map(ms => (
+                                                            <option key={ms} value={ms}>{formatMinutes(ms)}</option>
+                                                        ))}
+                                                    </select>
+                                                </div>
+                                            )}
                                         </div>
                                     </div>
                                 </div>
@@ -452,7 +704,9 @@ export default function DashboardClient({ firstName }: DashboardClientProps) {
                                         <div className="h-2 w-2 bg-green-500 rounded-full"></div>
                                         <span className="text-sm font-medium">Idle cleanup enabled</span>
                                     </div>
-                                    <Badge variant="secondary">5 min timeout</Badge>
+                                    <Badge variant="secondary">
+                                        {idleTimeout ? formatMinutes(idleTimeout.timeoutMs) : '5 min'} timeout
+                                    </Badge>
                                 </div>
 
                                 <div className="flex items-center justify-between p-3 bg-yellow-50 rounded-lg">
@@ -470,7 +724,7 @@ export default function DashboardClient({ firstName }: DashboardClientProps) {
                                 <h4 className="font-medium text-slate-900 mb-2">Getting Started</h4>
                                 <ul className="text-sm text-slate-600 space-y-1">
                                     <li>• Click "Start New Workspace" to launch VS Code</li>
-                                    <li>• Your workspace will auto-stop after 5 minutes of inactivity</li>
+                                    <li>• Your workspace will auto-stop after {idleTimeout ? formatMinutes(idleTimeout.timeoutMs) : '5 min'} of inactivity</li>
                                     <li>• Files are persistent across sessions</li>
                                     <li>• Use the heartbeat system to keep your session alive</li>
                                 </ul>
@@ -0,0 +1,102 @@
+// Mirrors ALLOCATION_STEP in server/src/lib/enum.ts
+export type AllocationStep =
+    | 'QUEUED'
+    | 'RESUME'
+    | 'REUSE_HELD'
+    | 'POP_SPARE'
+    | 'RESOLVE_IP'
+    | 'RESTORE_SNAPSHOT'
+    | 'SSM_SETUP'
+    | 'HEARTBEAT_TOKEN'
+    | 'NGINX'
+    | 'TAGGING'
+    | 'PROTECTION';
+
+export interface AllocationResultData {
+    instanceId: string;
+    publicUrl: string;
+    directIp: string;
+    // Set when a held instance or a hibernated one was used instead of a spare
+    reused?: boolean;
+    resumed?: boolean;
+}
+
+export type AllocationResult =
+    | { success: true; status: 'success'; message: string; data: AllocationResultData }
+    | { success: false; status: 'error' | 'processing'; message: string; error?: string };
+
+export interface AllocationJob {
+    jobId: string;
+    status: 'PENDING' | 'QUEUED' | 'RUNNING' | 'SUCCEEDED' | 'FAILED';
+    step: AllocationStep;
+    steps: { step: AllocationStep; at: string }[];
+    result?: AllocationResult;
+    queuePosition?: number;
+    estimatedWaitMs?: number;
+}
+
+export interface QueueStatus {
+    position: number;
+    estimatedWaitMs: number;
+}
+
+export type AllocationEvent =
+    | { type: 'job'; job: AllocationJob }
+    | { type: 'complete'; job: AllocationJob }
+    | { type: 'pool'; warmSpares: number }
+    | ({ type: 'queue' } & QueueStatus);
+
+interface StreamOptions {
+    url: string;
+    token: string;
+    signal: AbortSignal;
+    onOpen?: () => void;
+    onEvent: (event: AllocationEvent) => void;
+}
+
+// EventSource cannot send an Authorization header, so read the SSE stream via fetch
+export async function streamAllocationEvents({ url, token, signal, onOpen, onEvent }: StreamOptions): Promise<void> {
+    const response = await fetch(url, {
+        headers: {
+            Authorization: `Bearer ${token}`,
+            Accept: 'text/event-stream'
+        },
+        credentials: 'include',
+        signal
+    });
+
+    if (!response.ok || !response.body) {
+        throw new Error(`Failed to open allocation stream: ${response.status}`);
+    }
+
+    onOpen?.();
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+
+        // Events are separated by a blank line; keep any partial event in the buffer
+        let separator = buffer.indexOf('\n\n');
+        while (separator !== -1) {
+            const rawEvent = buffer.slice(0, separator);
+            buffer = buffer.slice(separator + 2);
+            separator = buffer.indexOf('\n\n');
+
+            const data = rawEvent
+                .split('\n')
+                .filter(line => line.startsWith('data:'))
+                .map(line => line.slice(5).trim())
+                .join('\n');
+
+            if (data) {
+                onEvent(JSON.parse(data));
+            }
+        }
+    }
+}
@@ -0,0 +1,80 @@
+// Signs the editor's heartbeats and forwards them to the router's /ping.
+// The instance's Nginx sends /api/ping here; the token and instance id are
+// written into the container by the router on every allocation.
+const crypto = require("crypto");
+const fs = require("fs");
+const http = require("http");
+
+const ROUTER_URL = process.env.ROUTER_URL;
+const PORT = Number(process.env.HEARTBEAT_RELAY_PORT) || 8090;
+const TOKEN_PATH = "/etc/code-server/heartbeat-token";
+const INSTANCE_ID_PATH = "/etc/code-server/instance-id";
+
+function send(res, status, body) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let data = "";
+    req.on("data", (chunk) => {
+      data += chunk;
+      if (data.length > 4096) {
+        reject(new Error("Body too large"));
+        req.destroy();
+      }
+    });
+    req.on("end", () => resolve(data));
+    req.on("error", reject);
+  });
+}
+
+http
+  .createServer(async (req, res) => {
+    if (req.method !== "POST" || req.url !== "/ping") {
+      return send(res, 404, { error: "Not Found" });
+    }
+
+    let active;
+    try {
+      const body = JSON.parse((await readBody(req)) || "{}");
+      active = body.active !== false;
+    } catch {
+      return send(res, 400, { error: "Bad Request" });
+    }
+
+    // Read on every ping: the router replaces the token on each allocation
+    let token;
+    let instanceId;
+    try {
+      token = fs.readFileSync(TOKEN_PATH, "utf8").trim();
+      instanceId = fs.readFileSync(INSTANCE_ID_PATH, "utf8").trim();
+    } catch {
+      return send(res, 503, { error: "Workspace not assigned yet" });
+    }
+
+    const timestamp = Date.now();
+    const nonce = crypto.randomBytes(16).toString("hex");
+    const signature = crypto
+      .createHmac("sha256", token)
+      .update(`${instanceId}:${timestamp}:${nonce}:${active}`)
+      .digest("hex");
+
+    try {
+      const response = await fetch(`${ROUTER_URL}/ping`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ instanceId, active, timestamp, nonce, signature }),
+        signal: AbortSignal.timeout(10_000),
+      });
+      res.writeHead(response.status, { "Content-Type": "application/json" });
+      res.end(await response.text());
+    } catch (error) {
+      console.error("Heartbeat relay could not reach the router:", error);
+      send(res, 502, { error: "Bad Gateway" });
+    }
+  })
+  .listen(PORT, "127.0.0.1", () => {
+    console.log(`Heartbeat relay listening on 127.0.0.1:${PORT}`);
+  });
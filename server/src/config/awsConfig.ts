@@ -1,7 +1,8 @@
 import { EC2Client } from "@aws-sdk/client-ec2";
 import { AutoScalingClient } from "@aws-sdk/client-auto-scaling";
-import type { AWSConfig } from "../types";
+import type { AWSConfig, WorkspaceTier } from "../types";
 import { SSMClient } from "@aws-sdk/client-ssm";
+import { hostname } from "os";
 
 export const awsConfig: AWSConfig = {
   region: process.env.AWS_REGION || "us-east-1",
@@ -19,10 +20,94 @@ export const autoScalingClient = new AutoScalingClient(awsConfig);
 export const ssmClient = new SSMClient(awsConfig);
 
 // Configuration constants
+export const COMPUTE_PROVIDER = process.env.COMPUTE_PROVIDER || "aws"; // aws | docker
 export const MAX_MACHINES = Number(process.env.ASG_MAX) || 5;
 export const WARM_SPARE_COUNT = Number(process.env.WARM_SPARE_COUNT) || 1;
+export const SPARE_POLICY_TIMEZONE = process.env.SPARE_POLICY_TIMEZONE || "UTC";
 export const ASG_NAME = process.env.ASG_NAME || "code-server-asg";
+// JSON list of { name, group, warmSpares, maxMachines }; group is the ASG name
+// (aws) or container pool label (docker). Defaults to one tier on ASG_NAME.
+export const WORKSPACE_TIERS: WorkspaceTier[] = process.env.WORKSPACE_TIERS
+  ? JSON.parse(process.env.WORKSPACE_TIERS)
+  : [
+    {
+      name: "default",
+      group: ASG_NAME,
+      warmSpares: WARM_SPARE_COUNT,
+      maxMachines: MAX_MACHINES,
+    },
+  ];
+export const DEFAULT_TIER = process.env.DEFAULT_TIER || WORKSPACE_TIERS[0]?.name;
 export const IDLE_TIMEOUT_MS =
   Number(process.env.IDLE_TIMEOUT_MS) || 5 * 60 * 1000; // 5 minutes
+export const IDLE_TIMEOUT_MIN_MS =
+  Number(process.env.IDLE_TIMEOUT_MIN_MS) || 60 * 1000; // shortest idle timeout a user may pick
+export const IDLE_TIMEOUT_MAX_MS =
+  Number(process.env.IDLE_TIMEOUT_MAX_MS) || 60 * 60 * 1000; // longest idle timeout a user may pick
+export const IDLE_WARNING_MS =
+  Number(process.env.IDLE_WARNING_MS) || 60 * 1000; // warn in the editor during the last minute
 export const CLEANUP_INTERVAL_MS =
   Number(process.env.CLEANUP_INTERVAL_MS) || 60 * 1000; // 1 minute
+export const ALLOCATION_JOB_TTL_MS =
+  Number(process.env.ALLOCATION_JOB_TTL_MS) || 24 * 60 * 60 * 1000; // 24 hours
+export const ALLOCATION_JOB_TIMEOUT_MS =
+  Number(process.env.ALLOCATION_JOB_TIMEOUT_MS) || 15 * 60 * 1000; // 15 minutes
+export const ALLOCATION_STREAM_INTERVAL_MS =
+  Number(process.env.ALLOCATION_STREAM_INTERVAL_MS) || 15 * 1000; // 15 seconds
+export const ALLOCATION_LOCK_TTL_MS =
+  Number(process.env.ALLOCATION_LOCK_TTL_MS) || 15 * 60 * 1000; // 15 minutes
+export const QUEUE_MAX_WAIT_MS =
+  Number(process.env.QUEUE_MAX_WAIT_MS) || 60 * 60 * 1000; // 1 hour
+export const INSTANCE_BOOT_ESTIMATE_MS =
+  Number(process.env.INSTANCE_BOOT_ESTIMATE_MS) || 3 * 60 * 1000; // 3 minutes
+export const USAGE_RETENTION_MS =
+  Number(process.env.USAGE_RETENTION_MS) || 180 * 24 * 60 * 60 * 1000; // 180 days
+export const QUOTA_DEFAULT_MONTHLY_HOURS = process.env
+  .QUOTA_DEFAULT_MONTHLY_HOURS
+  ? Number(process.env.QUOTA_DEFAULT_MONTHLY_HOURS)
+  : null; // unset = unlimited
+export const QUOTA_WARNING_RATIO =
+  Number(process.env.QUOTA_WARNING_RATIO) || 0.8; // warn at 80% used
+export const SPOT_INTERRUPTION_NOTICE_MS =
+  Number(process.env.SPOT_INTERRUPTION_NOTICE_MS) || 2 * 60 * 1000; // EC2 gives 2 minutes
+export const INSTANCE_ACTIVITY_CHECK =
+  process.env.INSTANCE_ACTIVITY_CHECK !== "false"; // keep idle users whose instance has running processes or open terminals
+export const INSTANCE_ACTIVITY_MAX_EXTENSIONS =
+  Number(process.env.INSTANCE_ACTIVITY_MAX_EXTENSIONS) || 6; // idle timeouts a busy instance can add before its idle user is reaped anyway
+export const HIBERNATE_IDLE_INSTANCES =
+  process.env.HIBERNATE_IDLE_INSTANCES === "true"; // stop idle instances instead of terminating them
+export const HIBERNATION_RETENTION_MS =
+  Number(process.env.HIBERNATION_RETENTION_MS) || 24 * 60 * 60 * 1000; // 24 hours before a stopped instance is terminated
+export const AFFINITY_GRACE_MS =
+  Number(process.env.AFFINITY_GRACE_MS) || 0; // hold a released instance for its user, e.g. 900000 (15 minutes); off by default
+export const ADMIN_USER_IDS = (process.env.ADMIN_USER_IDS || "")
+  .split(",")
+  .map((id) => id.trim())
+  .filter(Boolean); // Clerk user IDs allowed to call /api/v1/admin/*
+export const SNAPSHOT_ON_RELEASE =
+  process.env.SNAPSHOT_ON_RELEASE === "true"; // archive the user's directory whenever their workspace is released (off by default)
+export const SNAPSHOT_RETENTION_COUNT =
+  Number(process.env.SNAPSHOT_RETENTION_COUNT) || 5; // archives kept per user; older ones are deleted
+export const AUDIT_RETENTION_MS =
+  Number(process.env.AUDIT_RETENTION_MS) || 180 * 24 * 60 * 60 * 1000; // 180 days
+export const HEARTBEAT_MAX_SKEW_MS =
+  Number(process.env.HEARTBEAT_MAX_SKEW_MS) || 60 * 1000; // how far a signed ping's timestamp may be from ours
+export const RECONCILE_INTERVAL_MS =
+  Number(process.env.RECONCILE_INTERVAL_MS) || 5 * 60 * 1000; // 5 minutes
+export const RECONCILE_DRY_RUN = process.env.RECONCILE_DRY_RUN === "true";
+export const JOB_HISTORY_LIMIT =
+  Number(process.env.JOB_HISTORY_LIMIT) || 100; // runs kept per scheduled job, and failures kept overall
+export const REPLICA_ID =
+  process.env.REPLICA_ID || `${hostname()}:${process.pid}`; // identifies this server in leader election
+export const LEADER_LEASE_MS =
+  Number(process.env.LEADER_LEASE_MS) || 15 * 1000; // a dead leader is replaced after at most this long
+
+// Docker provider (COMPUTE_PROVIDER=docker)
+export const DOCKER_IMAGE = process.env.DOCKER_IMAGE || "code-server-docker";
+export const DOCKER_HOST_ADDRESS = process.env.DOCKER_HOST_ADDRESS || "127.0.0.1";
+export const DOCKER_PORT_RANGE_START =
+  Number(process.env.DOCKER_PORT_RANGE_START) || 9000;
+export const DOCKER_WORKSPACE_ROOT =
+  process.env.DOCKER_WORKSPACE_ROOT || "/var/lib/code-server/workspaces"; // replaces /mnt/efs
+export const DOCKER_STATE_FILE =
+  process.env.DOCKER_STATE_FILE || "/var/lib/code-server/docker-provider.json";
@@ -7,14 +7,75 @@ import {
   getUserFromInstance,
   updateUserPing,
   getUserWorkspace,
+  getAllocationJob,
+  getSparePolicies,
+  setSparePolicies,
+  getOpenUsageSession,
+  getIdleTimeoutConfig,
+  getQuotaConfig,
+  setIdleTimeoutConfig,
+  setQuotaConfig,
+  getInterruptionNotice,
+  setPendingRestore,
 } from "./utils/redisUtils";
-import { allocateMachine, getSystemStatus } from "./utils/machineManager";
-import { webhookHandler } from "./utils/webhook";
 import {
-  startCleanupProcess,
-  stopCleanupProcess,
+  getQueueStatus,
+  getSystemStatus,
+  releaseMachine,
+  startAllocationJob,
+} from "./utils/machineManager";
+import {
+  handleInstanceLifecycleEvent,
+  webhookHandler,
+} from "./utils/webhook";
+import computeProvider from "./providers";
+import { allocationEventsHandler } from "./utils/allocationEvents";
+import {
+  ensureOptimalWarmSpares,
+  planCleanup,
+  runCleanupCycle,
 } from "./utils/cleanUpManager";
+import {
+  getJobHistory,
+  startScheduler,
+  stopScheduler,
+} from "./utils/scheduler";
+import { recoverStateFromProvider } from "./utils/stateRecovery";
+import { migrateSinglePoolState } from "./utils/migrations";
+import {
+  getCapacityTargets,
+  validateSparePolicies,
+} from "./utils/sparePolicy";
+import { getTier } from "./utils/tiers";
+import { getUsageReport, parseUsageRange } from "./utils/usage";
+import { getQuotaStatus, validateQuotaConfig } from "./utils/quota";
+import {
+  getIdleStatus,
+  getIdleTimeoutSetting,
+  setIdleTimeoutPreference,
+  validateIdleTimeoutConfig,
+} from "./utils/idle";
+import {
+  getSnapshotStatus,
+  requestRestore,
+  takeSnapshot,
+} from "./utils/snapshots";
+import { getAuditTrail } from "./utils/audit";
+import { verifyHeartbeat } from "./utils/heartbeatAuth";
+import { requireAdmin } from "./utils/adminAuth";
+import {
+  getLeaderStatus,
+  isLeader,
+  startLeaderElection,
+  stopLeaderElection,
+} from "./utils/leaderElection";
 import logger from "./utils/logger";
+import { DEFAULT_TIER, JOB_HISTORY_LIMIT } from "./config/awsConfig";
+import {
+  ALLOCATION_JOB_STATUS,
+  INSTANCE_STATE,
+  SNAPSHOT_TRIGGER,
+} from "./lib/enum";
 
 declare global {
   namespace Express {
@@ -33,8 +94,28 @@ dotenv.config();
 
 const PORT = process.env.PORT || 3000;
 
-// Store cleanup interval reference for graceful shutdown
-let cleanupInterval: NodeJS.Timeout;
+// Store leader election interval reference for graceful shutdown
+let leaderInterval: NodeJS.Timeout | undefined;
+
+// Recovery, cleanup and reconciliation run on the leader replica only
+function startLeaderJobs(): void {
+  const requestId = `leader-recovery-${Date.now()}`;
+  // Move pre-tier keys first so recovery sees the migrated pools, then
+  // rebuild anything Redis lost from instance tags. Followers never do, so
+  // a restarting replica can't pool an instance another one is allocating.
+  migrateSinglePoolState(requestId)
+    .then(() => recoverStateFromProvider(requestId))
+    .catch((error) => {
+      logger.error(`[${requestId}] [startLeaderJobs] Leader state recovery failed`, {
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    });
+  startScheduler();
+}
+
+function stopLeaderJobs(): void {
+  stopScheduler();
+}
 
 app.use(
   clerkMiddleware({
@@ -93,7 +174,10 @@ app.get("/api/status", async (req: Request, res: Response): Promise<void> => {
   logger.debug(`[${requestId}] [${functionName}] System status requested`);
 
   try {
-    const status = await getSystemStatus(requestId);
+    const [status, leader] = await Promise.all([
+      getSystemStatus(requestId),
+      getLeaderStatus(requestId),
+    ]);
 
     logger.info(
       `[${requestId}] [${functionName}] System status retrieved successfully`,
@@ -102,12 +186,13 @@ app.get("/api/status", async (req: Request, res: Response): Promise<void> => {
         warmSpares: status.warmSpares,
         totalInstances: status.totalInstances,
         asgCapacity: status.asgCapacity,
+        leaderId: leader.leaderId,
       }
     );
 
     res.status(200).json({
       success: true,
-      data: status,
+      data: { ...status, leader },
     });
   } catch (error) {
     logger.error(
@@ -135,7 +220,7 @@ app.post(
     );
 
     try {
-      const { userId } = req.auth || {};
+      const { userId, orgId } = req.auth || {};
 
       if (!userId) {
         logger.error(
@@ -150,9 +235,24 @@ app.post(
         return;
       }
 
+      const tier: unknown = req.body?.tier ?? DEFAULT_TIER;
+      if (typeof tier !== "string" || !getTier(tier)) {
+        logger.warn(`[${requestId}] [${functionName}] Unknown tier requested`, {
+          userId,
+          tier,
+        });
+        res.status(400).json({
+          message: "Unknown workspace tier",
+          error: "tier must be one of the configured tiers",
+          success: false,
+          status: "error",
+        });
+        return;
+      }
+
       logger.debug(
         `[${requestId}] [${functionName}] Fetching user from Clerk`,
-        { userId }
+        { userId, tier }
       );
       const user = await clerkClient.users.getUser(userId);
 
@@ -177,49 +277,171 @@ app.post(
         userEmail,
       });
 
-      const allocatedMachineResponse = await allocateMachine(
-        userId,
-        userName,
-        requestId
+      const job = await startAllocationJob(userId, userName, requestId, {
+        tier,
+        orgId,
+      });
+
+      logger.info(
+        `[${requestId}] [${functionName}] Machine allocation job accepted`,
+        { userId, jobId: job.jobId, tier: job.tier, step: job.step }
       );
 
-      if (allocatedMachineResponse.success) {
-        logger.info(
-          `[${requestId}] [${functionName}] Machine allocated successfully`,
-          {
-            userId,
-            instanceId: allocatedMachineResponse.data?.instanceId,
-            publicUrl: allocatedMachineResponse.data?.publicUrl,
-          }
-        );
+      res.status(202).json({
+        message: "Machine allocation started",
+        data: {
+          jobId: job.jobId,
+          tier: job.tier,
+          jobStatus: job.status,
+          step: job.step,
+          statusUrl: `/api/v1/allocations/${job.jobId}`,
+        },
+        success: true,
+        status: "processing",
+      });
+    } catch (err) {
+      logger.error(`[${requestId}] [${functionName}] Internal server error`, {
+        error: err instanceof Error ? err.message : "Unknown error",
+      });
 
-        res.status(200).json({
-          message: allocatedMachineResponse.message,
-          data: allocatedMachineResponse.data,
-          success: true,
-          status: allocatedMachineResponse.status,
+      res.status(500).json({
+        message: "Internal Server Error",
+        error: "Failed to allocate machine",
+        success: false,
+        status: "error",
+      });
+    }
+  }
+);
+
+app.get(`/api/v1/allocations/events`, allocationEventsHandler);
+
+app.get(
+  `/api/v1/allocations/:id`,
+  async (req: Request, res: Response): Promise<void> => {
+    const functionName = "getAllocationJob";
+    const requestId = logger.getRequestId(req);
+    const jobId = req.params.id as string;
+
+    logger.debug(
+      `[${requestId}] [${functionName}] Allocation job status requested`,
+      { jobId }
+    );
+
+    try {
+      const { userId } = req.auth || {};
+
+      if (!userId) {
+        logger.error(
+          `[${requestId}] [${functionName}] Unauthorized request - no userId`
+        );
+        res.status(401).json({
+          message: "Unauthorized",
+          error: "User not authenticated",
+          success: false,
+          status: "error",
         });
         return;
-      } else {
-        const statusCode =
-          allocatedMachineResponse.status === "processing" ? 202 : 500;
+      }
 
-        logger.warn(
-          `[${requestId}] [${functionName}] Machine allocation failed`,
-          {
-            userId,
-            status: allocatedMachineResponse.status,
-            error: allocatedMachineResponse.error,
-          }
+      const job = await getAllocationJob(jobId, requestId);
+
+      // Jobs owned by other users are reported as missing
+      if (!job || job.userId !== userId) {
+        logger.debug(
+          `[${requestId}] [${functionName}] Allocation job not found`,
+          { userId, jobId }
         );
+        res.status(404).json({
+          success: false,
+          message: "Allocation job not found",
+        });
+        return;
+      }
+
+      const queueStatus =
+        job.status === ALLOCATION_JOB_STATUS.QUEUED
+          ? await getQueueStatus(userId, requestId)
+          : null;
+
+      res.status(200).json({
+        success: true,
+        data: {
+          ...job,
+          queuePosition: queueStatus?.position,
+          estimatedWaitMs: queueStatus?.estimatedWaitMs,
+        },
+      });
+    } catch (error) {
+      logger.error(
+        `[${requestId}] [${functionName}] Failed to get allocation job`,
+        {
+          jobId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        }
+      );
+
+      res.status(500).json({
+        success: false,
+        error: "Failed to get allocation job",
+      });
+    }
+  }
+);
+
+app.post(
+  `/api/v1/machines/release`,
+  async (req: Request, res: Response): Promise<void> => {
+    const functionName = "releaseMachine";
+    const requestId = logger.getRequestId(req);
+
+    logger.info(`[${requestId}] [${functionName}] Machine release requested`);
+
+    try {
+      const { userId } = req.auth || {};
 
-        res.status(statusCode).json({
-          message: allocatedMachineResponse.message,
-          error: allocatedMachineResponse.error,
+      if (!userId) {
+        logger.error(
+          `[${requestId}] [${functionName}] Unauthorized request - no userId`
+        );
+        res.status(401).json({
+          message: "Unauthorized",
+          error: "User not authenticated",
           success: false,
-          status: allocatedMachineResponse.status,
+          status: "error",
+        });
+        return;
+      }
+
+      const releaseResponse = await releaseMachine(userId, requestId);
+
+      if (releaseResponse.success) {
+        logger.info(
+          `[${requestId}] [${functionName}] Machine release completed`,
+          { userId, result: releaseResponse.data }
+        );
+
+        res.status(200).json({
+          message: releaseResponse.message,
+          data: releaseResponse.data,
+          success: true,
+          status: releaseResponse.status,
         });
+        return;
       }
+
+      logger.warn(`[${requestId}] [${functionName}] Machine release failed`, {
+        userId,
+        error: releaseResponse.error,
+      });
+
+      // "processing" means an allocation for the user holds the lock
+      res.status(releaseResponse.status === "processing" ? 409 : 500).json({
+        message: releaseResponse.message,
+        error: releaseResponse.error,
+        success: false,
+        status: releaseResponse.status,
+      });
     } catch (err) {
       logger.error(`[${requestId}] [${functionName}] Internal server error`, {
         error: err instanceof Error ? err.message : "Unknown error",
@@ -227,7 +449,7 @@ app.post(
 
       res.status(500).json({
         message: "Internal Server Error",
-        error: "Failed to allocate machine",
+        error: "Failed to release machine",
         success: false,
         status: "error",
       });
@@ -244,7 +466,7 @@ app.get(
     logger.debug(`[${requestId}] [${functionName}] Machine status requested`);
 
     try {
-      const { userId } = req.auth || {};
+      const { userId, orgId } = req.auth || {};
 
       if (!userId) {
         logger.error(
@@ -264,8 +486,34 @@ app.get(
         { userId }
       );
       const workspace = await getUserWorkspace(userId, requestId);
+      const queueStatus =
+        workspace?.state === INSTANCE_STATE.RUNNING
+          ? null
+          : await getQueueStatus(userId, requestId);
+      // A running session is billed to the org it was started under
+      const openSession = await getOpenUsageSession(userId, requestId);
+      const quota = await getQuotaStatus(
+        userId,
+        openSession ? openSession.orgId : orgId,
+        requestId
+      );
+
+      if (queueStatus) {
+        logger.info(
+          `[${requestId}] [${functionName}] User is waiting in allocation queue`,
+          { userId, ...queueStatus }
+        );
 
-      if (workspace) {
+        res.status(200).json({
+          success: true,
+          data: {
+            state: "QUEUED",
+            queuePosition: queueStatus.position,
+            estimatedWaitMs: queueStatus.estimatedWaitMs,
+            quota,
+          },
+        });
+      } else if (workspace) {
         logger.info(
           `[${requestId}] [${functionName}] Workspace found for user`,
           {
@@ -284,6 +532,7 @@ app.get(
             state: workspace.state,
             lastSeen: workspace.lastSeen,
             ts: workspace.ts,
+            quota,
           },
         });
       } else {
@@ -312,84 +561,1097 @@ app.get(
   }
 );
 
-app.post("/ping", async (req: Request, res: Response): Promise<void> => {
-  const functionName = "ping";
-  const requestId = logger.getRequestId(req);
+app.get(
+  `/api/v1/usage`,
+  async (req: Request, res: Response): Promise<void> => {
+    const functionName = "getUsage";
+    const requestId = logger.getRequestId(req);
 
-  logger.debug(`[${requestId}] [${functionName}] Ping received`, {
-    body: req.body,
-  });
+    try {
+      const { userId } = req.auth || {};
 
-  try {
-    const { instanceId } = req.body;
-    const now = Date.now();
+      if (!userId) {
+        logger.error(
+          `[${requestId}] [${functionName}] Unauthorized request - no userId`
+        );
+        res.status(401).json({
+          message: "Unauthorized",
+          error: "User not authenticated",
+          success: false,
+          status: "error",
+        });
+        return;
+      }
 
-    if (!instanceId) {
-      logger.error(
-        `[${requestId}] [${functionName}] Missing instanceId in ping request`
-      );
-      res.status(400).json({
-        error: "Bad Request",
-        message: "Missing instanceId in request",
-      });
-      return;
-    }
+      const range = parseUsageRange(req.query);
+      if ("error" in range) {
+        res.status(400).json({
+          message: "Invalid usage range",
+          error: range.error,
+          success: false,
+          status: "error",
+        });
+        return;
+      }
 
-    logger.debug(
-      `[${requestId}] [${functionName}] Looking up user for instance`,
-      { instanceId }
-    );
-    const userId = await getUserFromInstance(instanceId, requestId);
+      const report = await getUsageReport(
+        range.from,
+        range.to,
+        requestId,
+        userId
+      );
 
-    if (!userId) {
-      logger.warn(`[${requestId}] [${functionName}] Instance not found`, {
-        instanceId,
+      res.status(200).json({
+        message: "Usage retrieved",
+        data: {
+          from: report.from,
+          to: report.to,
+          sessions: report.sessions,
+          totalMs: report.totalMs,
+        },
+        success: true,
+        status: "success",
       });
-      res.status(404).json({
-        error: "Not Found",
-        message: "Instance not found",
+    } catch (err) {
+      logger.error(`[${requestId}] [${functionName}] Internal server error`, {
+        error: err instanceof Error ? err.message : "Unknown error",
+      });
+
+      res.status(500).json({
+        message: "Internal Server Error",
+        error: "Failed to get usage",
+        success: false,
+        status: "error",
       });
-      return;
     }
+  }
+);
 
-    logger.debug(`[${requestId}] [${functionName}] Updating user ping`, {
-      userId,
-      instanceId,
-    });
-    await updateUserPing(userId, instanceId, requestId);
+app.get(
+  `/api/v1/idle-timeout`,
+  async (req: Request, res: Response): Promise<void> => {
+    const functionName = "getIdleTimeout";
+    const requestId = logger.getRequestId(req);
 
-    logger.info(`[${requestId}] [${functionName}] Ping successful`, {
-      userId,
-      instanceId,
-      timestamp: now,
-    });
-    res.status(200).json({
-      success: true,
-      message: "Pong",
-      timestamp: Date.now(),
-    });
-  } catch (error) {
-    logger.error(`[${requestId}] [${functionName}] Ping service error`, {
-      error: error instanceof Error ? error.message : "Unknown error",
-    });
+    try {
+      const { userId, orgId } = req.auth || {};
 
-    res.status(500).json({
-      error: "Internal Server Error",
-      message: "Ping service error",
-    });
-  }
-});
+      if (!userId) {
+        logger.error(
+          `[${requestId}] [${functionName}] Unauthorized request - no userId`
+        );
+        res.status(401).json({
+          message: "Unauthorized",
+          error: "User not authenticated",
+          success: false,
+          status: "error",
+        });
+        return;
+      }
 
-app.post("/webhook/asg", webhookHandler);
+      const setting = await getIdleTimeoutSetting(userId, orgId, requestId);
 
-app.use(
-  (err: Error, req: Request, res: Response, next: express.NextFunction) => {
-    const functionName = "errorHandler";
-    const requestId = logger.getRequestId(req);
+      res.status(200).json({
+        message: "Idle timeout retrieved",
+        data: setting,
+        success: true,
+        status: "success",
+      });
+    } catch (err) {
+      logger.error(`[${requestId}] [${functionName}] Internal server error`, {
+        error: err instanceof Error ? err.message : "Unknown error",
+      });
 
-    logger.error(`[${requestId}] [${functionName}] Unhandled error`, {
-      error: err.message,
-      stack: err.stack,
+      res.status(500).json({
+        message: "Internal Server Error",
+        error: "Failed to get idle timeout",
+        success: false,
+        status: "error",
+      });
+    }
+  }
+);
+
+app.put(
+  `/api/v1/idle-timeout`,
+  async (req: Request, res: Response): Promise<void> => {
+    const functionName = "updateIdleTimeout";
+    const requestId = logger.getRequestId(req);
+
+    try {
+      const { userId, orgId } = req.auth || {};
+
+      if (!userId) {
+        logger.error(
+          `[${requestId}] [${functionName}] Unauthorized request - no userId`
+        );
+        res.status(401).json({
+          message: "Unauthorized",
+          error: "User not authenticated",
+          success: false,
+          status: "error",
+        });
+        return;
+      }
+
+      const { timeoutMs } = req.body || {};
+      if (timeoutMs !== null && typeof timeoutMs !== "number") {
+        res.status(400).json({
+          message: "Invalid idle timeout",
+          error: "timeoutMs must be a number of milliseconds or null",
+          success: false,
+          status: "error",
+        });
+        return;
+      }
+
+      const result = await setIdleTimeoutPreference(
+        userId,
+        orgId,
+        timeoutMs,
+        requestId
+      );
+      if ("error" in result) {
+        logger.warn(`[${requestId}] [${functionName}] Idle timeout rejected`, {
+          userId,
+          timeoutMs,
+          error: result.error,
+        });
+        res.status(400).json({
+          message: "Invalid idle timeout",
+          error: result.error,
+          success: false,
+          status: "error",
+        });
+        return;
+      }
+
+      logger.info(`[${requestId}] [${functionName}] Idle timeout updated`, {
+        userId,
+        ...result.setting,
+      });
+
+      res.status(200).json({
+        message: "Idle timeout updated",
+        data: result.setting,
+        success: true,
+        status: "success",
+      });
+    } catch (err) {
+      logger.error(`[${requestId}] [${functionName}] Internal server error`, {
+        error: err instanceof Error ? err.message : "Unknown error",
+      });
+
+      res.status(500).json({
+        message: "Internal Server Error",
+        error: "Failed to update idle timeout",
+        success: false,
+        status: "error",
+      });
+    }
+  }
+);
+
+app.get(
+  `/api/v1/snapshots`,
+  async (req: Request, res: Response): Promise<void> => {
+    const functionName = "getSnapshots";
+    const requestId = logger.getRequestId(req);
+
+    try {
+      const { userId } = req.auth || {};
+
+      if (!userId) {
+        logger.error(
+          `[${requestId}] [${functionName}] Unauthorized request - no userId`
+        );
+        res.status(401).json({
+          message: "Unauthorized",
+          error: "User not authenticated",
+          success: false,
+          status: "error",
+        });
+        return;
+      }
+
+      const snapshots = await getSnapshotStatus(userId, requestId);
+
+      res.status(200).json({
+        message: "Snapshots retrieved",
+        data: snapshots,
+        success: true,
+        status: "success",
+      });
+    } catch (err) {
+      logger.error(`[${requestId}] [${functionName}] Internal server error`, {
+        error: err instanceof Error ? err.message : "Unknown error",
+      });
+
+      res.status(500).json({
+        message: "Internal Server Error",
+        error: "Failed to get snapshots",
+        success: false,
+        status: "error",
+      });
+    }
+  }
+);
+
+app.post(
+  `/api/v1/snapshots`,
+  async (req: Request, res: Response): Promise<void> => {
+    const functionName = "createSnapshot";
+    const requestId = logger.getRequestId(req);
+
+    try {
+      const { userId } = req.auth || {};
+
+      if (!userId) {
+        logger.error(
+          `[${requestId}] [${functionName}] Unauthorized request - no userId`
+        );
+        res.status(401).json({
+          message: "Unauthorized",
+          error: "User not authenticated",
+          success: false,
+          status: "error",
+        });
+        return;
+      }
+
+      const workspace = await getUserWorkspace(userId, requestId);
+      if (workspace?.state !== INSTANCE_STATE.RUNNING) {
+        res.status(409).json({
+          message: "No running workspace",
+          error: "Snapshots are taken from a running workspace",
+          success: false,
+          status: "error",
+        });
+        return;
+      }
+
+      const snapshot = await takeSnapshot(
+        userId,
+        workspace.instanceId,
+        SNAPSHOT_TRIGGER.ON_DEMAND,
+        requestId
+      );
+
+      res.status(201).json({
+        message: "Snapshot created",
+        data: snapshot,
+        success: true,
+        status: "success",
+      });
+    } catch (err) {
+      logger.error(`[${requestId}] [${functionName}] Internal server error`, {
+        error: err instanceof Error ? err.message : "Unknown error",
+      });
+
+      res.status(500).json({
+        message: "Internal Server Error",
+        error: "Failed to create snapshot",
+        success: false,
+        status: "error",
+      });
+    }
+  }
+);
+
+app.post(
+  `/api/v1/snapshots/:snapshotId/restore`,
+  async (req: Request, res: Response): Promise<void> => {
+    const functionName = "restoreSnapshot";
+    const requestId = logger.getRequestId(req);
+
+    try {
+      const { userId } = req.auth || {};
+
+      if (!userId) {
+        logger.error(
+          `[${requestId}] [${functionName}] Unauthorized request - no userId`
+        );
+        res.status(401).json({
+          message: "Unauthorized",
+          error: "User not authenticated",
+          success: false,
+          status: "error",
+        });
+        return;
+      }
+
+      const snapshotId = String(req.params.snapshotId);
+      const result = await requestRestore(userId, snapshotId, requestId);
+      if ("error" in result) {
+        logger.warn(`[${requestId}] [${functionName}] Restore rejected`, {
+          userId,
+          snapshotId,
+          error: result.error,
+        });
+        res.status(result.statusCode).json({
+          message: "Restore rejected",
+          error: result.error,
+          success: false,
+          status: "error",
+        });
+        return;
+      }
+
+      res.status(200).json({
+        message: "Snapshot will be restored on your next allocation",
+        data: { pendingRestore: snapshotId, snapshot: result.snapshot },
+        success: true,
+        status: "success",
+      });
+    } catch (err) {
+      logger.error(`[${requestId}] [${functionName}] Internal server error`, {
+        error: err instanceof Error ? err.message : "Unknown error",
+      });
+
+      res.status(500).json({
+        message: "Internal Server Error",
+        error: "Failed to restore snapshot",
+        success: false,
+        status: "error",
+      });
+    }
+  }
+);
+
+app.delete(
+  `/api/v1/snapshots/restore`,
+  async (req: Request, res: Response): Promise<void> => {
+    const functionName = "cancelRestore";
+    const requestId = logger.getRequestId(req);
+
+    try {
+      const { userId } = req.auth || {};
+
+      if (!userId) {
+        logger.error(
+          `[${requestId}] [${functionName}] Unauthorized request - no userId`
+        );
+        res.status(401).json({
+          message: "Unauthorized",
+          error: "User not authenticated",
+          success: false,
+          status: "error",
+        });
+        return;
+      }
+
+      await setPendingRestore(userId, null, requestId);
+
+      res.status(200).json({
+        message: "Pending restore cancelled",
+        data: { pendingRestore: null },
+        success: true,
+        status: "success",
+      });
+    } catch (err) {
+      logger.error(`[${requestId}] [${functionName}] Internal server error`, {
+        error: err instanceof Error ? err.message : "Unknown error",
+      });
+
+      res.status(500).json({
+        message: "Internal Server Error",
+        error: "Failed to cancel restore",
+        success: false,
+        status: "error",
+      });
+    }
+  }
+);
+
+app.post("/ping", async (req: Request, res: Response): Promise<void> => {
+  const functionName = "ping";
+  const requestId = logger.getRequestId(req);
+
+  // The body carries the ping's signature, so only log what identifies it
+  logger.debug(`[${requestId}] [${functionName}] Ping received`, {
+    instanceId: req.body?.instanceId,
+    active: req.body?.active,
+  });
+
+  try {
+    const { instanceId, timestamp, nonce, signature } = req.body;
+    // Heartbeats report whether the user did anything since the last one;
+    // older scripts that omit it count every ping as activity
+    const active = req.body.active !== false;
+    const now = Date.now();
+
+    if (!instanceId) {
+      logger.error(
+        `[${requestId}] [${functionName}] Missing instanceId in ping request`
+      );
+      res.status(400).json({
+        error: "Bad Request",
+        message: "Missing instanceId in request",
+      });
+      return;
+    }
+
+    // The instance mapping is gone once the workspace has moved, so check
+    // for a spot interruption notice before looking up the user
+    const interruption = await getInterruptionNotice(instanceId, requestId);
+
+    const verification = await verifyHeartbeat(
+      { instanceId, timestamp, nonce, signature, active },
+      requestId,
+      now,
+      interruption?.heartbeatToken
+    );
+    if ("error" in verification) {
+      logger.warn(
+        `[${requestId}] [${functionName}] Rejected unverified ping`,
+        { instanceId, reason: verification.error }
+      );
+      res.status(401).json({
+        error: "Unauthorized",
+        message: verification.error,
+      });
+      return;
+    }
+    if (!verification.signed) {
+      logger.debug(
+        `[${requestId}] [${functionName}] Accepting unsigned ping`,
+        { instanceId }
+      );
+    }
+
+    const notice = interruption && {
+      type: "SPOT_INTERRUPTION",
+      terminatesAt: interruption.terminatesAt,
+      message:
+        "This machine is being reclaimed. Your work has been saved and your workspace is moving to a new machine at the same address.",
+    };
+    const userId = await getUserFromInstance(instanceId, requestId);
+
+    // The move unmapped the old instance, which only needs the notice now
+    if (!userId && notice) {
+      logger.info(
+        `[${requestId}] [${functionName}] Ping from interrupted instance`,
+        { instanceId, userId: interruption.userId }
+      );
+      res.status(200).json({
+        success: true,
+        message: "Pong",
+        timestamp: Date.now(),
+        notice,
+      });
+      return;
+    }
+
+    if (!userId) {
+      logger.warn(`[${requestId}] [${functionName}] Instance not found`, {
+        instanceId,
+      });
+      res.status(404).json({
+        error: "Not Found",
+        message: "Instance not found",
+      });
+      return;
+    }
+
+    if (active) {
+      logger.debug(`[${requestId}] [${functionName}] Updating user ping`, {
+        userId,
+        instanceId,
+      });
+      await updateUserPing(userId, instanceId, requestId);
+    }
+    const idle = await getIdleStatus(userId, requestId, now);
+
+    logger.info(`[${requestId}] [${functionName}] Ping successful`, {
+      userId,
+      instanceId,
+      active,
+      remainingMs: idle.remainingMs,
+      timestamp: now,
+    });
+    res.status(200).json({
+      success: true,
+      message: "Pong",
+      timestamp: Date.now(),
+      idle,
+      ...(notice && { notice }),
+    });
+  } catch (error) {
+    logger.error(`[${requestId}] [${functionName}] Ping service error`, {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+
+    res.status(500).json({
+      error: "Internal Server Error",
+      message: "Ping service error",
+    });
+  }
+});
+
+app.post("/webhook/asg", webhookHandler);
+
+app.post(
+  `/api/v1/admin/recover`,
+  requireAdmin,
+  async (req: Request, res: Response): Promise<void> => {
+    const functionName = "recoverState";
+    const requestId = logger.getRequestId(req);
+
+    logger.info(`[${requestId}] [${functionName}] State recovery requested`, {
+      userId: req.auth?.userId,
+    });
+
+    try {
+      if (!isLeader()) {
+        const { leaderId } = await getLeaderStatus(requestId);
+        res.status(409).json({
+          message: "Not the leader",
+          error: `State recovery runs on the leader replica (${leaderId || "none elected"})`,
+          success: false,
+          status: "error",
+        });
+        return;
+      }
+
+      const result = await recoverStateFromProvider(requestId);
+
+      res.status(200).json({
+        message: "State recovery completed",
+        data: result,
+        success: result.errors.length === 0,
+        status: result.errors.length === 0 ? "success" : "error",
+      });
+    } catch (err) {
+      logger.error(`[${requestId}] [${functionName}] Internal server error`, {
+        error: err instanceof Error ? err.message : "Unknown error",
+      });
+
+      res.status(500).json({
+        message: "Internal Server Error",
+        error: "Failed to recover state",
+        success: false,
+        status: "error",
+      });
+    }
+  }
+);
+
+app.get(
+  `/api/v1/admin/usage`,
+  requireAdmin,
+  async (req: Request, res: Response): Promise<void> => {
+    const functionName = "getAdminUsage";
+    const requestId = logger.getRequestId(req);
+
+    try {
+      const range = parseUsageRange(req.query);
+      if ("error" in range) {
+        res.status(400).json({
+          message: "Invalid usage range",
+          error: range.error,
+          success: false,
+          status: "error",
+        });
+        return;
+      }
+
+      const userId =
+        typeof req.query.userId === "string" && req.query.userId
+          ? req.query.userId
+          : undefined;
+      const report = await getUsageReport(
+        range.from,
+        range.to,
+        requestId,
+        userId
+      );
+
+      logger.info(`[${requestId}] [${functionName}] Usage report retrieved`, {
+        adminUserId: req.auth?.userId,
+        userId,
+        from: range.from,
+        to: range.to,
+        sessions: report.sessions.length,
+      });
+
+      res.status(200).json({
+        message: "Usage retrieved",
+        data: report,
+        success: true,
+        status: "success",
+      });
+    } catch (err) {
+      logger.error(`[${requestId}] [${functionName}] Internal server error`, {
+        error: err instanceof Error ? err.message : "Unknown error",
+      });
+
+      res.status(500).json({
+        message: "Internal Server Error",
+        error: "Failed to get usage",
+        success: false,
+        status: "error",
+      });
+    }
+  }
+);
+
+app.get(
+  `/api/v1/admin/audit`,
+  requireAdmin,
+  async (req: Request, res: Response): Promise<void> => {
+    const functionName = "getAuditTrail";
+    const requestId = logger.getRequestId(req);
+
+    try {
+      const range = parseUsageRange(req.query);
+      if ("error" in range) {
+        res.status(400).json({
+          message: "Invalid audit range",
+          error: range.error,
+          success: false,
+          status: "error",
+        });
+        return;
+      }
+
+      const userId =
+        typeof req.query.userId === "string" && req.query.userId
+          ? req.query.userId
+          : undefined;
+      const instanceId =
+        typeof req.query.instanceId === "string" && req.query.instanceId
+          ? req.query.instanceId
+          : undefined;
+      const events = await getAuditTrail(range.from, range.to, requestId, {
+        userId,
+        instanceId,
+      });
+
+      logger.info(`[${requestId}] [${functionName}] Audit trail retrieved`, {
+        adminUserId: req.auth?.userId,
+        userId,
+        instanceId,
+        from: range.from,
+        to: range.to,
+        events: events.length,
+      });
+
+      res.status(200).json({
+        message: "Audit trail retrieved",
+        data: { from: range.from, to: range.to, events },
+        success: true,
+        status: "success",
+      });
+    } catch (err) {
+      logger.error(`[${requestId}] [${functionName}] Internal server error`, {
+        error: err instanceof Error ? err.message : "Unknown error",
+      });
+
+      res.status(500).json({
+        message: "Internal Server Error",
+        error: "Failed to get audit trail",
+        success: false,
+        status: "error",
+      });
+    }
+  }
+);
+
+app.get(
+  `/api/v1/admin/quotas`,
+  requireAdmin,
+  async (req: Request, res: Response): Promise<void> => {
+    const functionName = "getQuotas";
+    const requestId = logger.getRequestId(req);
+
+    try {
+      const config = await getQuotaConfig(requestId);
+
+      res.status(200).json({
+        message: "Quotas retrieved",
+        data: config,
+        success: true,
+        status: "success",
+      });
+    } catch (err) {
+      logger.error(`[${requestId}] [${functionName}] Internal server error`, {
+        error: err instanceof Error ? err.message : "Unknown error",
+      });
+
+      res.status(500).json({
+        message: "Internal Server Error",
+        error: "Failed to get quotas",
+        success: false,
+        status: "error",
+      });
+    }
+  }
+);
+
+app.put(
+  `/api/v1/admin/quotas`,
+  requireAdmin,
+  async (req: Request, res: Response): Promise<void> => {
+    const functionName = "updateQuotas";
+    const requestId = logger.getRequestId(req);
+
+    try {
+      const { config, errors } = validateQuotaConfig(req.body);
+
+      if (errors.length > 0) {
+        logger.warn(`[${requestId}] [${functionName}] Invalid quota config`, {
+          errors,
+        });
+        res.status(400).json({
+          message: "Invalid quota config",
+          error: errors.join("; "),
+          success: false,
+          status: "error",
+        });
+        return;
+      }
+
+      await setQuotaConfig(config, requestId);
+
+      logger.info(`[${requestId}] [${functionName}] Quotas updated`, {
+        userId: req.auth?.userId,
+      });
+
+      res.status(200).json({
+        message: "Quotas updated",
+        data: config,
+        success: true,
+        status: "success",
+      });
+    } catch (err) {
+      logger.error(`[${requestId}] [${functionName}] Internal server error`, {
+        error: err instanceof Error ? err.message : "Unknown error",
+      });
+
+      res.status(500).json({
+        message: "Internal Server Error",
+        error: "Failed to update quotas",
+        success: false,
+        status: "error",
+      });
+    }
+  }
+);
+
+app.get(
+  `/api/v1/admin/idle-timeouts`,
+  requireAdmin,
+  async (req: Request, res: Response): Promise<void> => {
+    const functionName = "getIdleTimeouts";
+    const requestId = logger.getRequestId(req);
+
+    try {
+      const config = await getIdleTimeoutConfig(requestId);
+
+      res.status(200).json({
+        message: "Idle timeout bounds retrieved",
+        data: config,
+        success: true,
+        status: "success",
+      });
+    } catch (err) {
+      logger.error(`[${requestId}] [${functionName}] Internal server error`, {
+        error: err instanceof Error ? err.message : "Unknown error",
+      });
+
+      res.status(500).json({
+        message: "Internal Server Error",
+        error: "Failed to get idle timeout bounds",
+        success: false,
+        status: "error",
+      });
+    }
+  }
+);
+
+app.put(
+  `/api/v1/admin/idle-timeouts`,
+  requireAdmin,
+  async (req: Request, res: Response): Promise<void> => {
+    const functionName = "updateIdleTimeouts";
+    const requestId = logger.getRequestId(req);
+
+    try {
+      const { config, errors } = validateIdleTimeoutConfig(req.body);
+
+      if (errors.length > 0) {
+        logger.warn(
+          `[${requestId}] [${functionName}] Invalid idle timeout bounds`,
+          { errors }
+        );
+        res.status(400).json({
+          message: "Invalid idle timeout bounds",
+          error: errors.join("; "),
+          success: false,
+          status: "error",
+        });
+        return;
+      }
+
+      await setIdleTimeoutConfig(config, requestId);
+
+      logger.info(`[${requestId}] [${functionName}] Idle timeout bounds updated`, {
+        userId: req.auth?.userId,
+      });
+
+      res.status(200).json({
+        message: "Idle timeout bounds updated",
+        data: config,
+        success: true,
+        status: "success",
+      });
+    } catch (err) {
+      logger.error(`[${requestId}] [${functionName}] Internal server error`, {
+        error: err instanceof Error ? err.message : "Unknown error",
+      });
+
+      res.status(500).json({
+        message: "Internal Server Error",
+        error: "Failed to update idle timeout bounds",
+        success: false,
+        status: "error",
+      });
+    }
+  }
+);
+
+app.get(
+  `/api/v1/admin/cleanup/plan`,
+  requireAdmin,
+  async (req: Request, res: Response): Promise<void> => {
+    const functionName = "getCleanupPlan";
+    const requestId = logger.getRequestId(req);
+
+    try {
+      const plan = await planCleanup(requestId);
+
+      res.status(200).json({
+        message: "Cleanup plan retrieved",
+        data: plan,
+        success: true,
+        status: "success",
+      });
+    } catch (err) {
+      logger.error(`[${requestId}] [${functionName}] Internal server error`, {
+        error: err instanceof Error ? err.message : "Unknown error",
+      });
+
+      res.status(500).json({
+        message: "Internal Server Error",
+        error: "Failed to plan cleanup",
+        success: false,
+        status: "error",
+      });
+    }
+  }
+);
+
+app.post(
+  `/api/v1/admin/cleanup/run`,
+  requireAdmin,
+  async (req: Request, res: Response): Promise<void> => {
+    const functionName = "runCleanup";
+    const requestId = logger.getRequestId(req);
+
+    try {
+      if (!isLeader()) {
+        const { leaderId } = await getLeaderStatus(requestId);
+        res.status(409).json({
+          message: "Not the leader",
+          error: `Cleanup runs on the leader replica (${leaderId || "none elected"})`,
+          success: false,
+          status: "error",
+        });
+        return;
+      }
+
+      logger.info(`[${requestId}] [${functionName}] Cleanup cycle triggered`, {
+        userId: req.auth?.userId,
+      });
+      const report = await runCleanupCycle(requestId);
+
+      res.status(200).json({
+        message: "Cleanup cycle completed",
+        data: report,
+        success: true,
+        status: "success",
+      });
+    } catch (err) {
+      logger.error(`[${requestId}] [${functionName}] Internal server error`, {
+        error: err instanceof Error ? err.message : "Unknown error",
+      });
+
+      res.status(500).json({
+        message: "Internal Server Error",
+        error: "Failed to run cleanup cycle",
+        success: false,
+        status: "error",
+      });
+    }
+  }
+);
+
+app.get(
+  `/api/v1/admin/jobs`,
+  requireAdmin,
+  async (req: Request, res: Response): Promise<void> => {
+    const functionName = "getJobs";
+    const requestId = logger.getRequestId(req);
+
+    try {
+      const limit = req.query.limit === undefined ? 20 : Number(req.query.limit);
+      if (!Number.isInteger(limit) || limit < 1) {
+        res.status(400).json({
+          message: "Invalid job history limit",
+          error: "limit must be a positive integer",
+          success: false,
+          status: "error",
+        });
+        return;
+      }
+
+      const history = await getJobHistory(
+        Math.min(limit, JOB_HISTORY_LIMIT),
+        requestId
+      );
+
+      res.status(200).json({
+        message: "Job history retrieved",
+        data: history,
+        success: true,
+        status: "success",
+      });
+    } catch (err) {
+      logger.error(`[${requestId}] [${functionName}] Internal server error`, {
+        error: err instanceof Error ? err.message : "Unknown error",
+      });
+
+      res.status(500).json({
+        message: "Internal Server Error",
+        error: "Failed to get job history",
+        success: false,
+        status: "error",
+      });
+    }
+  }
+);
+
+app.get(
+  `/api/v1/admin/spare-policies`,
+  requireAdmin,
+  async (req: Request, res: Response): Promise<void> => {
+    const functionName = "getSparePolicies";
+    const requestId = logger.getRequestId(req);
+
+    try {
+      const [policies, active] = await Promise.all([
+        getSparePolicies(requestId),
+        getCapacityTargets(requestId),
+      ]);
+
+      res.status(200).json({
+        message: "Spare policies retrieved",
+        data: { policies, active },
+        success: true,
+        status: "success",
+      });
+    } catch (err) {
+      logger.error(`[${requestId}] [${functionName}] Internal server error`, {
+        error: err instanceof Error ? err.message : "Unknown error",
+      });
+
+      res.status(500).json({
+        message: "Internal Server Error",
+        error: "Failed to get spare policies",
+        success: false,
+        status: "error",
+      });
+    }
+  }
+);
+
+app.put(
+  `/api/v1/admin/spare-policies`,
+  requireAdmin,
+  async (req: Request, res: Response): Promise<void> => {
+    const functionName = "updateSparePolicies";
+    const requestId = logger.getRequestId(req);
+
+    try {
+      const { policies, errors } = validateSparePolicies(req.body?.policies);
+
+      if (errors.length > 0) {
+        logger.warn(`[${requestId}] [${functionName}] Invalid spare policies`, {
+          errors,
+        });
+        res.status(400).json({
+          message: "Invalid spare policies",
+          error: errors.join("; "),
+          success: false,
+          status: "error",
+        });
+        return;
+      }
+
+      await setSparePolicies(policies, requestId);
+      const active = await getCapacityTargets(requestId);
+
+      logger.info(`[${requestId}] [${functionName}] Spare policies updated`, {
+        userId: req.auth?.userId,
+        count: policies.length,
+        activePolicies: Object.fromEntries(
+          Object.entries(active).map(([tier, target]) => [
+            tier,
+            target.policy?.name || "default",
+          ])
+        ),
+      });
+
+      // Apply the new target now rather than on the next cleanup cycle;
+      // followers leave it to the leader
+      if (isLeader()) {
+        ensureOptimalWarmSpares(requestId).catch((error) => {
+          logger.error(
+            `[${requestId}] [${functionName}] Failed to apply spare policies`,
+            { error: error instanceof Error ? error.message : "Unknown error" }
+          );
+        });
+      }
+
+      res.status(200).json({
+        message: "Spare policies updated",
+        data: { policies, active },
+        success: true,
+        status: "success",
+      });
+    } catch (err) {
+      logger.error(`[${requestId}] [${functionName}] Internal server error`, {
+        error: err instanceof Error ? err.message : "Unknown error",
+      });
+
+      res.status(500).json({
+        message: "Internal Server Error",
+        error: "Failed to update spare policies",
+        success: false,
+        status: "error",
+      });
+    }
+  }
+);
+
+app.use(
+  (err: Error, req: Request, res: Response, next: express.NextFunction) => {
+    const functionName = "errorHandler";
+    const requestId = logger.getRequestId(req);
+
+    logger.error(`[${requestId}] [${functionName}] Unhandled error`, {
+      error: err.message,
+      stack: err.stack,
       url: req.url,
       method: req.method,
     });
@@ -422,21 +1684,27 @@ app.use((req: Request, res: Response) => {
 });
 
 // Graceful shutdown handling
-process.on("SIGTERM", () => {
+process.on("SIGTERM", async () => {
   logger.info("[system] [shutdown] Received SIGTERM, shutting down gracefully");
 
-  if (cleanupInterval) {
-    stopCleanupProcess(cleanupInterval);
+  stopLeaderJobs();
+
+  // Hand the lease over so another replica takes over straight away
+  if (leaderInterval) {
+    await stopLeaderElection(leaderInterval);
   }
 
   process.exit(0);
 });
 
-process.on("SIGINT", () => {
+process.on("SIGINT", async () => {
   logger.info("[system] [shutdown] Received SIGINT, shutting down gracefully");
 
-  if (cleanupInterval) {
-    stopCleanupProcess(cleanupInterval);
+  stopLeaderJobs();
+
+  // Hand the lease over so another replica takes over straight away
+  if (leaderInterval) {
+    await stopLeaderElection(leaderInterval);
   }
 
   process.exit(0);
@@ -446,9 +1714,14 @@ app.listen(PORT, () => {
   logger.info(`[system] [serverStart] Server started successfully`, {
     port: PORT,
     env: process.env.NODE_ENV,
+    computeProvider: computeProvider.name,
   });
 
-  // Start the cleanup process
-  logger.info(`[system] [serverStart] Starting cleanup process`);
-  cleanupInterval = startCleanupProcess();
+  computeProvider.onLifecycleEvent?.(handleInstanceLifecycleEvent);
+
+  // Only the elected replica runs state recovery, cleanup and reconciliation
+  leaderInterval = startLeaderElection({
+    onElected: startLeaderJobs,
+    onDemoted: stopLeaderJobs,
+  });
 });
@@ -1,4 +1,129 @@
 export enum INSTANCE_STATE {
   RUNNING = "RUNNING",
   STOPPED = "STOPPED",
+  // Idle instance stopped outside its group, kept for the user to resume
+  HIBERNATED = "HIBERNATED",
+}
+
+export enum ALLOCATION_JOB_STATUS {
+  PENDING = "PENDING",
+  QUEUED = "QUEUED",
+  RUNNING = "RUNNING",
+  SUCCEEDED = "SUCCEEDED",
+  FAILED = "FAILED",
+}
+
+export enum ALLOCATION_STEP {
+  QUEUED = "QUEUED",
+  POP_SPARE = "POP_SPARE",
+  RESUME = "RESUME",
+  REUSE_HELD = "REUSE_HELD",
+  RESOLVE_IP = "RESOLVE_IP",
+  // Unpack the snapshot the user asked to roll back to
+  RESTORE_SNAPSHOT = "RESTORE_SNAPSHOT",
+  SSM_SETUP = "SSM_SETUP",
+  // Give the new container the token it signs heartbeats with
+  HEARTBEAT_TOKEN = "HEARTBEAT_TOKEN",
+  NGINX = "NGINX",
+  TAGGING = "TAGGING",
+  PROTECTION = "PROTECTION",
+}
+
+export enum RECONCILE_DRIFT {
+  // ws:pool entry for an instance the provider no longer has
+  POOL_DEAD_INSTANCE = "POOL_DEAD_INSTANCE",
+  // ws:pool entry for an instance that belongs to a user
+  POOL_ASSIGNED_INSTANCE = "POOL_ASSIGNED_INSTANCE",
+  // RUNNING workspace pointing at a terminated instance
+  STALE_WORKSPACE = "STALE_WORKSPACE",
+  // ws:pings entry without a RUNNING workspace
+  STALE_PING = "STALE_PING",
+  // inst:<id> that no RUNNING workspace points back to
+  STALE_INSTANCE_MAPPING = "STALE_INSTANCE_MAPPING",
+  // Owner tag or scale-in protection disagrees with a RUNNING workspace
+  OWNER_TAG_MISMATCH = "OWNER_TAG_MISMATCH",
+  // Instance tagged or protected for a user with no workspace in Redis
+  ORPHANED_INSTANCE = "ORPHANED_INSTANCE",
+  // Unassigned instance missing from ws:pool
+  UNTRACKED_SPARE = "UNTRACKED_SPARE",
+  // HIBERNATED workspace whose stopped instance no longer exists
+  STALE_HIBERNATION = "STALE_HIBERNATION",
+  // Affinity hold on an instance that no longer exists
+  STALE_HOLD = "STALE_HOLD",
+}
+
+export enum CLEANUP_ACTION {
+  TERMINATE = "TERMINATE",
+  HIBERNATE = "HIBERNATE",
+  // Released into an affinity hold, recycled if the user doesn't return
+  HOLD = "HOLD",
+  // Idle in the browser but busy on the instance
+  KEEP = "KEEP",
+}
+
+export enum SCALING_ACTION {
+  SCALE_UP = "SCALE_UP",
+  SCALE_DOWN = "SCALE_DOWN",
+  NONE = "NONE",
+}
+
+export enum JOB_RUN_STATUS {
+  SUCCEEDED = "SUCCEEDED",
+  // Threw, or finished with errors for some of its items
+  FAILED = "FAILED",
+}
+
+export enum USAGE_END_REASON {
+  RELEASED = "RELEASED",
+  IDLE_TIMEOUT = "IDLE_TIMEOUT",
+  // Provider terminated the instance (scale-in, failure, manual)
+  INSTANCE_TERMINATED = "INSTANCE_TERMINATED",
+  // Reconciler found the workspace's instance gone
+  RECONCILED = "RECONCILED",
+  // A new session started while this one was still open
+  REPLACED = "REPLACED",
+  // Monthly quota ran out while the workspace was running
+  QUOTA_EXHAUSTED = "QUOTA_EXHAUSTED",
+  // Spot instance reclaimed; the workspace moves to a replacement
+  SPOT_INTERRUPTED = "SPOT_INTERRUPTED",
+}
+
+export enum AUDIT_ACTION {
+  // Workspace taken away from its user; the instance was reset, held or moved
+  RELEASE = "RELEASE",
+  TERMINATE = "TERMINATE",
+  HIBERNATE = "HIBERNATE",
+  // Failed allocation undone and its instance given back or terminated
+  ROLLBACK = "ROLLBACK",
+  // Group desired capacity lowered; the provider picks the instances
+  SCALE_IN = "SCALE_IN",
+  // Provider reported an instance gone, whoever asked for it
+  INSTANCE_TERMINATED = "INSTANCE_TERMINATED",
+}
+
+export enum AUDIT_REASON {
+  IDLE = "IDLE",
+  // Requested by the user
+  MANUAL = "MANUAL",
+  QUOTA = "QUOTA",
+  SPOT = "SPOT",
+  // Terminated by the Auto Scaling Group or provider, not by this server
+  ASG = "ASG",
+  HOLD_EXPIRED = "HOLD_EXPIRED",
+  HIBERNATION_EXPIRED = "HIBERNATION_EXPIRED",
+  ALLOCATION_FAILED = "ALLOCATION_FAILED",
+  // More instances than active users, queued users and warm spares need
+  CAPACITY = "CAPACITY",
+}
+
+export enum SNAPSHOT_TRIGGER {
+  // Taken while the workspace was released or reaped as idle
+  RELEASE = "RELEASE",
+  ON_DEMAND = "ON_DEMAND",
+}
+
+export enum QUOTA_SCOPE {
+  USER = "USER",
+  ORG = "ORG",
+  DEFAULT = "DEFAULT",
 }
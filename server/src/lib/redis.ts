@@ -10,3 +10,6 @@ if (!process.env.REDIS_URL) {
 const client = new Redis(process.env.REDIS_URL);
 
 export default client;
+
+// Subscribed connections cannot issue regular commands, so pub/sub gets its own
+export const subscriber = client.duplicate();
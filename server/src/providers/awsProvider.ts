@@ -0,0 +1,50 @@
+import { ComputeProvider } from "../types";
+import {
+  checkInstanceReadiness,
+  deliverASGHeartbeatToken,
+  flushWorkspaceToEFS,
+  getASGInstanceActivity,
+  getASGInstancesInfo,
+  getCurrentASGCapacity,
+  getInstanceIP,
+  hibernateASGInstance,
+  protectActiveInstances,
+  removeInstanceProtection,
+  resetToWarmSpare,
+  restoreASGWorkspace,
+  resumeASGInstance,
+  safelyTerminateInstance,
+  setupUserWorkspaceSymlink,
+  snapshotASGWorkspace,
+  tagInstance,
+  terminateHibernatedASGInstance,
+  updateASGCapacity,
+} from "../utils/awsUtils";
+
+/**
+ * EC2 Auto Scaling Group backend: each tier's group is an ASG, ownership is
+ * kept in EC2 tags and workspaces are set up over SSM.
+ */
+export const awsProvider: ComputeProvider = {
+  name: "aws",
+  getInstanceIP,
+  checkInstanceReadiness,
+  tagInstance,
+  protectActiveInstances,
+  removeInstanceProtection,
+  getCurrentCapacity: getCurrentASGCapacity,
+  updateCapacity: updateASGCapacity,
+  safelyTerminateInstance,
+  getInstancesInfo: getASGInstancesInfo,
+  setupUserWorkspace: (instanceId, userId) =>
+    setupUserWorkspaceSymlink(instanceId, userId),
+  resetToWarmSpare: (instanceId) => resetToWarmSpare(instanceId),
+  deliverHeartbeatToken: deliverASGHeartbeatToken,
+  flushWorkspace: flushWorkspaceToEFS,
+  getInstanceActivity: getASGInstanceActivity,
+  snapshotWorkspace: snapshotASGWorkspace,
+  restoreWorkspace: restoreASGWorkspace,
+  hibernateInstance: hibernateASGInstance,
+  resumeInstance: resumeASGInstance,
+  terminateHibernatedInstance: terminateHibernatedASGInstance,
+};
@@ -0,0 +1,50 @@
+import { ComputeProvider } from "../types";
+import {
+  checkContainerReadiness,
+  deliverDockerHeartbeatToken,
+  getDockerCapacity,
+  getDockerInstanceActivity,
+  getDockerInstanceAddress,
+  getDockerInstancesInfo,
+  hibernateDockerInstance,
+  onDockerLifecycleEvent,
+  resetDockerToWarmSpare,
+  restoreDockerWorkspace,
+  resumeDockerInstance,
+  setContainerProtection,
+  setupDockerWorkspace,
+  snapshotDockerWorkspace,
+  tagContainer,
+  terminateDockerInstance,
+  terminateHibernatedDockerInstance,
+  updateDockerCapacity,
+} from "../utils/dockerUtils";
+
+/**
+ * Single-host backend: each instance is a DOCKER_IMAGE container published on
+ * DOCKER_HOST_ADDRESS, and DOCKER_WORKSPACE_ROOT stands in for /mnt/efs.
+ */
+export const dockerProvider: ComputeProvider = {
+  name: "docker",
+  getInstanceIP: getDockerInstanceAddress,
+  checkInstanceReadiness: checkContainerReadiness,
+  tagInstance: tagContainer,
+  protectActiveInstances: (instanceIds, requestId) =>
+    setContainerProtection(instanceIds, true, requestId),
+  removeInstanceProtection: (instanceIds, requestId) =>
+    setContainerProtection(instanceIds, false, requestId),
+  getCurrentCapacity: getDockerCapacity,
+  updateCapacity: updateDockerCapacity,
+  safelyTerminateInstance: terminateDockerInstance,
+  getInstancesInfo: getDockerInstancesInfo,
+  setupUserWorkspace: setupDockerWorkspace,
+  resetToWarmSpare: resetDockerToWarmSpare,
+  deliverHeartbeatToken: deliverDockerHeartbeatToken,
+  getInstanceActivity: getDockerInstanceActivity,
+  snapshotWorkspace: snapshotDockerWorkspace,
+  restoreWorkspace: restoreDockerWorkspace,
+  hibernateInstance: hibernateDockerInstance,
+  resumeInstance: resumeDockerInstance,
+  terminateHibernatedInstance: terminateHibernatedDockerInstance,
+  onLifecycleEvent: onDockerLifecycleEvent,
+};
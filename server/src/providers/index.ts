@@ -0,0 +1,21 @@
+import { COMPUTE_PROVIDER } from "../config/awsConfig";
+import { ComputeProvider } from "../types";
+import { awsProvider } from "./awsProvider";
+import { dockerProvider } from "./dockerProvider";
+
+const providers: Record<string, ComputeProvider> = {
+  [awsProvider.name]: awsProvider,
+  [dockerProvider.name]: dockerProvider,
+};
+
+if (!providers[COMPUTE_PROVIDER]) {
+  throw new Error(
+    `Unknown COMPUTE_PROVIDER "${COMPUTE_PROVIDER}". Expected one of: ${Object.keys(
+      providers
+    ).join(", ")}`
+  );
+}
+
+const computeProvider = providers[COMPUTE_PROVIDER];
+
+export default computeProvider;
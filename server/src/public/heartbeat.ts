@@ -1,13 +1,101 @@
 let pingInterval: ReturnType<typeof setInterval> | undefined;
+let noticeInterval: ReturnType<typeof setInterval> | undefined;
+let idleInterval: ReturnType<typeof setInterval> | undefined;
+// Set by user input; only active heartbeats postpone idle cleanup
+let hadActivity = true;
+
+interface IdleStatus {
+  reapsAt: number;
+  remainingMs: number;
+  warning: boolean;
+}
+
+interface WorkspaceNotice {
+  type: string;
+  terminatesAt: number;
+  message: string;
+}
+
+function showNotice(notice: WorkspaceNotice) {
+  let banner = document.getElementById("workspace-notice");
+  if (!banner) {
+    banner = document.createElement("div");
+    banner.id = "workspace-notice";
+    banner.style.cssText =
+      "position:fixed;top:0;left:0;right:0;z-index:99999;padding:8px 16px;" +
+      "background:#b45309;color:#fff;font:13px sans-serif;text-align:center";
+    document.body.appendChild(banner);
+  }
+
+  const render = () => {
+    const seconds = Math.max(
+      0,
+      Math.round((notice.terminatesAt - Date.now()) / 1000)
+    );
+    banner!.textContent = `⚠️ ${notice.message} (${seconds}s)`;
+  };
+
+  render();
+  if (noticeInterval) clearInterval(noticeInterval);
+  noticeInterval = setInterval(render, 1000);
+}
+
+function hideIdleWarning() {
+  if (idleInterval) {
+    clearInterval(idleInterval);
+    idleInterval = undefined;
+  }
+  document.getElementById("workspace-idle-warning")?.remove();
+}
+
+function showIdleWarning(idle: IdleStatus) {
+  let banner = document.getElementById("workspace-idle-warning");
+  if (!banner) {
+    banner = document.createElement("div");
+    banner.id = "workspace-idle-warning";
+    banner.style.cssText =
+      "position:fixed;bottom:24px;left:0;right:0;z-index:99999;padding:8px 16px;" +
+      "background:#1e3a8a;color:#fff;font:13px sans-serif;text-align:center";
+
+    const text = document.createElement("span");
+    const button = document.createElement("button");
+    button.textContent = "Keep me alive";
+    button.style.cssText =
+      "margin-left:12px;padding:2px 10px;border:0;border-radius:3px;cursor:pointer";
+    button.addEventListener("click", () => {
+      hadActivity = true;
+      hideIdleWarning();
+      sendHeartbeat();
+    });
+
+    banner.append(text, button);
+    document.body.appendChild(banner);
+  }
+
+  const text = banner.firstElementChild as HTMLElement;
+  const render = () => {
+    const seconds = Math.max(0, Math.round((idle.reapsAt - Date.now()) / 1000));
+    text.textContent = `💤 No activity detected. This workspace shuts down in ${seconds}s.`;
+  };
+
+  render();
+  if (idleInterval) clearInterval(idleInterval);
+  idleInterval = setInterval(render, 1000);
+}
 
 async function sendHeartbeat() {
+  const active = hadActivity;
+  hadActivity = false;
+
   try {
+    // The container's heartbeat relay adds the instance id and signs the ping
     const response = await fetch(`/api/ping`, {
       method: "POST",
       credentials: "include",
       headers: {
         "Content-Type": "application/json",
       },
+      body: JSON.stringify({ active }),
     });
 
     if (!response.ok) {
@@ -26,6 +114,16 @@ async function sendHeartbeat() {
     try {
       const data = await response.json();
 
+      if (data.notice) {
+        showNotice(data.notice);
+      }
+
+      if (data.idle?.warning) {
+        showIdleWarning(data.idle);
+      } else {
+        hideIdleWarning();
+      }
+
       if (data.success) {
         console.log(
           `✅ Heartbeat successful - Instance: ${data.instanceId}, Router status: ${data.routerResponse}`
@@ -62,8 +160,30 @@ function stopHeartbeat() {
   }
 }
 
+// The editor and terminal both take input through focused textareas, so
+// keydown/input/paste cover typing in either
+for (const event of [
+  "keydown",
+  "input",
+  "paste",
+  "mousedown",
+  "mousemove",
+  "wheel",
+  "touchstart",
+]) {
+  document.addEventListener(
+    event,
+    () => {
+      hadActivity = true;
+    },
+    { capture: true, passive: true }
+  );
+}
+
 document.addEventListener("visibilitychange", () => {
   if (document.visibilityState === "visible") {
+    // Coming back to the tab counts as activity
+    hadActivity = true;
     startHeartbeat();
   } else {
     stopHeartbeat();
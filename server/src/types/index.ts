@@ -1,4 +1,17 @@
-import { INSTANCE_STATE } from "../lib/enum";
+import {
+  ALLOCATION_JOB_STATUS,
+  AUDIT_ACTION,
+  AUDIT_REASON,
+  ALLOCATION_STEP,
+  CLEANUP_ACTION,
+  INSTANCE_STATE,
+  JOB_RUN_STATUS,
+  QUOTA_SCOPE,
+  RECONCILE_DRIFT,
+  SCALING_ACTION,
+  SNAPSHOT_TRIGGER,
+  USAGE_END_REASON,
+} from "../lib/enum";
 
 export interface ApiResponse {
   message: string;
@@ -13,18 +26,305 @@ export interface ErrorResponse extends ApiResponse {
   error: string;
 }
 
+export interface WorkspaceTier {
+  name: string;
+  group: string;
+  warmSpares: number;
+  maxMachines: number;
+}
+
 export interface WorkspaceInfo {
   instanceId: string;
+  tier: string;
   publicIp: string;
   customDomain: string;
   subdomain: string;
   lastSeen: string;
   state: INSTANCE_STATE;
   ts: string;
+  hibernatedAt?: string;
+  idleTimeoutMs?: string; // in effect for this workspace, resolved on allocation
+  preferredIdleTimeoutMs?: string; // picked by the user
+}
+
+export interface AllocationStepEntry {
+  step: ALLOCATION_STEP;
+  at: string;
+}
+
+export interface AllocationJob {
+  jobId: string;
+  userId: string;
+  userName: string;
+  tier: string;
+  orgId?: string; // Clerk organization active when the job was created
+  subdomain?: string; // kept from a previous instance, e.g. after a spot interruption
+  status: ALLOCATION_JOB_STATUS;
+  step: ALLOCATION_STEP;
+  steps: AllocationStepEntry[];
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+  result?: SuccessResponse | ErrorResponse;
+  queuePosition?: number;
+  estimatedWaitMs?: number;
+}
+
+export interface QueueStatus {
+  tier: string;
+  position: number;
+  estimatedWaitMs: number;
+}
+
+export interface AllocationOptions {
+  onStep?: (step: ALLOCATION_STEP) => Promise<void>;
+  // Instance already taken out of the pool for this user, e.g. by a queue hand-off
+  instanceId?: string;
+  tier?: string;
+  orgId?: string;
+  // Reuse this subdomain instead of generating one
+  subdomain?: string;
+}
+
+export type AllocationJobOptions = Pick<
+  AllocationJob,
+  "tier" | "orgId" | "subdomain"
+>;
+
+export type AllocationEvent =
+  | { type: "job"; job: AllocationJob }
+  | { type: "complete"; job: AllocationJob }
+  | { type: "pool"; warmSpares: number }
+  | ({ type: "queue" } & QueueStatus);
+
+export interface SparePolicy {
+  id: string;
+  name: string;
+  tier?: string; // applies to every tier when omitted
+  days: number[]; // 0 = Sunday
+  start: string; // "HH:MM" in SPARE_POLICY_TIMEZONE
+  end: string; // earlier than start for windows that cross midnight
+  warmSpares: number;
+  maxMachines: number;
+}
+
+export interface CapacityTarget {
+  warmSpares: number;
+  maxMachines: number;
+  policy: SparePolicy | null;
+}
+
+export interface CleanupAction {
+  userId: string;
+  instanceId: string;
+  action: CLEANUP_ACTION;
+  reason: string;
 }
 
 export interface CleanupResult {
+  // Dry runs only fill actions
+  dryRun: boolean;
+  actions: CleanupAction[];
   terminatedInstances: string[];
+  hibernatedInstances: string[];
+  cleanedUsers: string[];
+  // Idle in the browser but still busy on the instance
+  busyUsers: string[];
+  errors: string[];
+}
+
+export interface CapacityChange {
+  tier: string;
+  group: string;
+  currentCapacity: number;
+  targetCapacity: number;
+  warmPoolSize: number;
+  action: SCALING_ACTION;
+  reason: string;
+  applied: boolean;
+}
+
+export interface CleanupPlan {
+  cleanup: CleanupResult;
+  scaling: CapacityChange[];
+}
+
+export interface CleanupCycleReport extends CleanupPlan {
+  holdsExpired: string[];
+  hibernationExpired: string[];
+  quotaReleased: string[];
+}
+
+export interface JobOutcome {
+  summary: Record<string, number | boolean>;
+  errors: string[];
+}
+
+export interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  run(requestId: string): Promise<JobOutcome>;
+}
+
+export interface JobRun extends JobOutcome {
+  runId: string;
+  job: string;
+  replicaId: string;
+  status: JOB_RUN_STATUS;
+  startedAt: number;
+  finishedAt: number;
+  durationMs: number;
+}
+
+export interface LeaderStatus {
+  replicaId: string;
+  isLeader: boolean;
+  leaderId: string | null;
+  // Incremented on every change of leader
+  term: number;
+  leaseExpiresAt: number | null;
+}
+
+export interface InstanceActivity {
+  // Foreground processes on a terminal other than the shells themselves
+  processes: number;
+  // Open terminal sessions (ptys)
+  terminals: number;
+}
+
+export interface ReconcileDrift {
+  kind: RECONCILE_DRIFT;
+  instanceId?: string;
+  userId?: string;
+  detail: string;
+  repaired: boolean;
+}
+
+export interface ReconcileResult {
+  dryRun: boolean;
+  drifts: ReconcileDrift[];
+  errors: string[];
+}
+
+export interface RecoveryResult {
+  restoredWorkspaces: { userId: string; instanceId: string; subdomain: string }[];
+  restoredSpares: string[];
+  skippedInstances: string[];
+  errors: string[];
+}
+
+export interface UsageSession {
+  sessionId: string;
+  userId: string;
+  instanceId: string;
+  tier: string;
+  orgId?: string;
+  startedAt: string;
+  endedAt?: string; // unset while the session is open
+  endReason?: USAGE_END_REASON;
+}
+
+export interface UsageReport {
+  from: number;
+  to: number;
+  sessions: (UsageSession & { durationMs: number })[];
+  totalMs: number;
+  byUser: Record<string, number>; // total ms per user
+}
+
+// Monthly hour limits; a user limit beats an org limit, which beats the default
+export interface QuotaConfig {
+  defaultMonthlyHours?: number | null; // null = unlimited, unset = QUOTA_DEFAULT_MONTHLY_HOURS
+  users: Record<string, number>;
+  orgs: Record<string, number>;
+}
+
+export interface IdleTimeoutBounds {
+  minMs: number;
+  maxMs: number;
+}
+
+// Idle timeout range users may pick from; org bounds beat tier bounds, which beat the default
+export interface IdleTimeoutConfig {
+  default?: IdleTimeoutBounds; // unset = IDLE_TIMEOUT_MIN_MS to IDLE_TIMEOUT_MAX_MS
+  tiers: Record<string, IdleTimeoutBounds>;
+  orgs: Record<string, IdleTimeoutBounds>;
+}
+
+export interface IdleTimeoutSetting {
+  timeoutMs: number;
+  preferredMs: number | null;
+  bounds: IdleTimeoutBounds;
+}
+
+export interface QuotaStatus {
+  scope: QUOTA_SCOPE;
+  orgId?: string;
+  limitMs: number;
+  usedMs: number;
+  remainingMs: number;
+  warning: boolean;
+  exhausted: boolean;
+  resetsAt: number;
+}
+
+// Returned by /ping so the editor can warn before the workspace is reaped
+export interface IdleStatus {
+  lastActiveAt: number;
+  reapsAt: number;
+  remainingMs: number;
+  warning: boolean;
+}
+
+// A released instance kept for its previous user until expiresAt
+export interface AffinityHold {
+  userId: string;
+  instanceId: string;
+  tier: string;
+  publicIp: string;
+  subdomain: string;
+  customDomain: string;
+  expiresAt: number;
+}
+
+// Set when a spot instance is about to be reclaimed so /ping can warn the editor
+export interface InterruptionNotice {
+  instanceId: string;
+  userId: string;
+  terminatesAt: number;
+  heartbeatToken?: string; // revoked by the move; the old instance still signs with it
+}
+
+export interface AuditEvent {
+  eventId: string;
+  action: AUDIT_ACTION;
+  reason: AUDIT_REASON;
+  // User ID for requests a user made, "system" for this server's own jobs,
+  // or the compute provider's name for events it started
+  actor: string;
+  userId?: string;
+  // Unset for scale-in, where the provider picks the instances
+  instanceId?: string;
+  tier?: string;
+  timestamp: number;
+  replicaId: string;
+  requestId: string;
+  details?: Record<string, string | number | boolean>;
+}
+
+// Compressed archive of a user's directory on shared storage
+export interface WorkspaceSnapshot {
+  snapshotId: string;
+  userId: string;
+  trigger: SNAPSHOT_TRIGGER;
+  // Instance the archive was taken on
+  instanceId: string;
+  createdAt: number;
+  sizeBytes: number;
+}
+
+export interface ReleaseResult {
+  releasedInstances: string[];
   cleanedUsers: string[];
   errors: string[];
 }
@@ -33,7 +333,121 @@ export interface InstanceInfo {
   instanceId: string;
   owner: string;
   isActive: boolean;
+  isProtected: boolean;
+  isSpot?: boolean;
+  // Stopped and out of the group's desired capacity (ASG Standby)
+  isHibernated?: boolean;
   publicIp?: string;
+  subdomain?: string;
+  group: string;
+}
+
+export interface TierInstanceInfo extends InstanceInfo {
+  tier: string;
+}
+
+export interface InstanceReadinessCheck {
+  hasPublicIp: boolean;
+  isRunning: boolean;
+}
+
+export type InstanceLifecycleEvent = "launch" | "terminate";
+
+export type InstanceLifecycleListener = (
+  event: InstanceLifecycleEvent,
+  instanceId: string,
+  group: string,
+  requestId: string
+) => void | Promise<void>;
+
+/**
+ * Machine operations the allocation, cleanup and webhook logic depend on.
+ * Each backend (e.g. EC2 Auto Scaling) implements this once.
+ */
+export interface ComputeProvider {
+  name: string;
+  getInstanceIP(instanceId: string, requestId: string): Promise<string | null>;
+  checkInstanceReadiness(
+    instanceId: string,
+    requestId: string
+  ): Promise<InstanceReadinessCheck>;
+  tagInstance(
+    instanceId: string,
+    userId: string,
+    requestId: string,
+    subdomain?: string
+  ): Promise<void>;
+  protectActiveInstances(
+    instanceIds: string[],
+    requestId: string
+  ): Promise<void>;
+  removeInstanceProtection(
+    instanceIds: string[],
+    requestId: string
+  ): Promise<void>;
+  // group is a tier's ASG name or container pool
+  getCurrentCapacity(group: string, requestId: string): Promise<number>;
+  updateCapacity(
+    group: string,
+    desiredCapacity: number,
+    requestId: string
+  ): Promise<void>;
+  safelyTerminateInstance(instanceId: string, requestId: string): Promise<void>;
+  // Push buffered workspace writes to shared storage before the instance goes away
+  flushWorkspace?(instanceId: string, requestId: string): Promise<void>;
+  // Archive the user's directory to snapshotId on shared storage, deleting
+  // the archives in prune, and return its size in bytes
+  snapshotWorkspace?(
+    instanceId: string,
+    userId: string,
+    snapshotId: string,
+    prune: string[],
+    requestId: string
+  ): Promise<number>;
+  // Replace the user's directory with a snapshot, before code-server starts
+  restoreWorkspace?(
+    instanceId: string,
+    userId: string,
+    snapshotId: string,
+    requestId: string
+  ): Promise<void>;
+  // What the user is running inside the workspace, checked before idle cleanup
+  getInstanceActivity?(
+    instanceId: string,
+    requestId: string
+  ): Promise<InstanceActivity>;
+  getInstancesInfo(group: string, requestId: string): Promise<InstanceInfo[]>;
+  setupUserWorkspace(
+    instanceId: string,
+    userId: string,
+    requestId: string
+  ): Promise<void>;
+  resetToWarmSpare(instanceId: string, requestId: string): Promise<void>;
+  // Write the token the code-server container signs its heartbeats with;
+  // false when the container has no heartbeat relay to sign with
+  deliverHeartbeatToken(
+    instanceId: string,
+    token: string,
+    requestId: string
+  ): Promise<boolean>;
+  // Stop an idle user's instance without it counting towards the group, start
+  // it again on their next allocation, or terminate it once retention ends
+  hibernateInstance?(instanceId: string, requestId: string): Promise<void>;
+  resumeInstance?(instanceId: string, requestId: string): Promise<void>;
+  terminateHibernatedInstance?(
+    instanceId: string,
+    requestId: string
+  ): Promise<void>;
+  // Providers without an SNS webhook report launches and terminations here
+  onLifecycleEvent?(listener: InstanceLifecycleListener): void;
+}
+
+export interface DockerProviderState {
+  desiredCapacity: Record<string, number>;
+  tags: Record<string, string>;
+  subdomains: Record<string, string>;
+  protectedInstances: string[];
+  hibernatedInstances: string[];
 }
 
 export interface AWSConfig {
@@ -0,0 +1,45 @@
+import { NextFunction, Request, Response } from "express";
+import { ADMIN_USER_IDS } from "../config/awsConfig";
+import logger from "./logger";
+
+/**
+ * Allow the request through only for Clerk users listed in ADMIN_USER_IDS
+ */
+export function requireAdmin(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const functionName = "requireAdmin";
+  const requestId = logger.getRequestId(req);
+  const { userId } = req.auth || {};
+
+  if (!userId) {
+    logger.error(
+      `[${requestId}] [${functionName}] Unauthorized request - no userId`
+    );
+    res.status(401).json({
+      message: "Unauthorized",
+      error: "User not authenticated",
+      success: false,
+      status: "error",
+    });
+    return;
+  }
+
+  if (!ADMIN_USER_IDS.includes(userId)) {
+    logger.warn(
+      `[${requestId}] [${functionName}] Forbidden - user is not an admin`,
+      { userId, path: req.path }
+    );
+    res.status(403).json({
+      message: "Forbidden",
+      error: "Admin access required",
+      success: false,
+      status: "error",
+    });
+    return;
+  }
+
+  next();
+}
@@ -0,0 +1,179 @@
+import { Request, Response } from "express";
+import redis, { subscriber } from "../lib/redis";
+import { ALLOCATION_STREAM_INTERVAL_MS } from "../config/awsConfig";
+import { AllocationEvent } from "../types";
+import { getActiveAllocationJob, getWarmPoolSize } from "./redisUtils";
+import logger from "./logger";
+
+type AllocationEventListener = (event: AllocationEvent) => void;
+
+const CHANNEL_PREFIX = "alloc:events:";
+
+// One Redis subscription per user channel, fanned out to every open stream
+const listeners = new Map<string, Set<AllocationEventListener>>();
+
+subscriber.on("message", (channel: string, message: string) => {
+  const userId = channel.slice(CHANNEL_PREFIX.length);
+  const userListeners = listeners.get(userId);
+  if (!userListeners) {
+    return;
+  }
+
+  let event: AllocationEvent;
+  try {
+    event = JSON.parse(message);
+  } catch (error) {
+    logger.error(`[system] [allocationEvents] Invalid event payload`, {
+      channel,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return;
+  }
+
+  for (const listener of userListeners) {
+    listener(event);
+  }
+});
+
+export async function publishAllocationEvent(
+  userId: string,
+  event: AllocationEvent,
+  requestId: string
+): Promise<void> {
+  const functionName = "publishAllocationEvent";
+
+  try {
+    await redis.publish(`${CHANNEL_PREFIX}${userId}`, JSON.stringify(event));
+  } catch (error) {
+    // Progress events are best effort; allocation must not fail because of them
+    logger.error(
+      `[${
+        requestId || "system"
+      }] [${functionName}] Failed to publish allocation event`,
+      {
+        userId,
+        type: event.type,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+  }
+}
+
+async function subscribeToAllocationEvents(
+  userId: string,
+  listener: AllocationEventListener
+): Promise<() => Promise<void>> {
+  let userListeners = listeners.get(userId);
+  if (!userListeners) {
+    userListeners = new Set();
+    listeners.set(userId, userListeners);
+    await subscriber.subscribe(`${CHANNEL_PREFIX}${userId}`);
+  }
+  userListeners.add(listener);
+
+  return async () => {
+    const current = listeners.get(userId);
+    if (!current) {
+      return;
+    }
+    current.delete(listener);
+    if (current.size === 0) {
+      listeners.delete(userId);
+      await subscriber.unsubscribe(`${CHANNEL_PREFIX}${userId}`);
+    }
+  };
+}
+
+/**
+ * Server-Sent Events stream of allocation progress for the signed-in user
+ */
+export async function allocationEventsHandler(
+  req: Request,
+  res: Response
+): Promise<void> {
+  const functionName = "allocationEventsHandler";
+  const requestId = logger.getRequestId(req);
+  const { userId } = req.auth || {};
+
+  if (!userId) {
+    logger.error(
+      `[${requestId}] [${functionName}] Unauthorized request - no userId`
+    );
+    res.status(401).json({
+      message: "Unauthorized",
+      error: "User not authenticated",
+      success: false,
+      status: "error",
+    });
+    return;
+  }
+
+  logger.info(`[${requestId}] [${functionName}] Allocation stream opened`, {
+    userId,
+  });
+
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Cache-Control", "no-cache");
+  res.setHeader("Connection", "keep-alive");
+  res.setHeader("X-Accel-Buffering", "no");
+
+  const send = (event: AllocationEvent) => {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+
+  const sendPoolStatus = async () => {
+    const warmSpares = await getWarmPoolSize(requestId);
+    send({ type: "pool", warmSpares });
+  };
+
+  let unsubscribe: (() => Promise<void>) | undefined;
+  let closed = false;
+  const interval = setInterval(() => {
+    sendPoolStatus().catch(() => undefined);
+  }, ALLOCATION_STREAM_INTERVAL_MS);
+
+  req.on("close", () => {
+    closed = true;
+    clearInterval(interval);
+    unsubscribe?.().catch(() => undefined);
+    logger.info(`[${requestId}] [${functionName}] Allocation stream closed`, {
+      userId,
+    });
+  });
+
+  try {
+    unsubscribe = await subscribeToAllocationEvents(userId, send);
+    if (closed) {
+      await unsubscribe();
+      return;
+    }
+
+    // Headers go out only after subscribing, so an open stream never misses events
+    res.flushHeaders();
+
+    // Catch up a client that connects while a job is already running
+    const activeJob = await getActiveAllocationJob(userId, requestId);
+    if (activeJob) {
+      send({ type: "job", job: activeJob });
+    }
+    await sendPoolStatus();
+  } catch (error) {
+    logger.error(
+      `[${requestId}] [${functionName}] Failed to start allocation stream`,
+      {
+        userId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    clearInterval(interval);
+    unsubscribe?.().catch(() => undefined);
+    if (res.headersSent) {
+      res.end();
+    } else {
+      res.status(500).json({
+        success: false,
+        error: "Failed to open allocation stream",
+      });
+    }
+  }
+}
@@ -0,0 +1,45 @@
+import { randomUUID } from "crypto";
+import { REPLICA_ID } from "../config/awsConfig";
+import { AuditEvent } from "../types";
+import { addAuditEvent, getAuditEvents } from "./redisUtils";
+import logger from "./logger";
+
+/**
+ * Record why a workspace or instance went away. Never throws, so callers can
+ * audit in the middle of a release without guarding it.
+ */
+export async function recordAuditEvent(
+  event: Omit<AuditEvent, "eventId" | "timestamp" | "replicaId" | "requestId">,
+  requestId: string
+): Promise<void> {
+  const functionName = "recordAuditEvent";
+  const entry: AuditEvent = {
+    eventId: randomUUID(),
+    timestamp: Date.now(),
+    replicaId: REPLICA_ID,
+    requestId: requestId || "system",
+    ...event,
+  };
+
+  logger.info(
+    `[${requestId || "system"}] [${functionName}] ${entry.action} (${entry.reason})`,
+    { ...entry }
+  );
+  await addAuditEvent(entry, requestId);
+}
+
+/**
+ * Audit events in the range, oldest first, optionally narrowed to a user
+ * and/or an instance
+ */
+export async function getAuditTrail(
+  from: number,
+  to: number,
+  requestId: string,
+  filter: { userId?: string; instanceId?: string } = {}
+): Promise<AuditEvent[]> {
+  const events = await getAuditEvents(from, to, requestId, filter.userId);
+  return filter.instanceId
+    ? events.filter((event) => event.instanceId === filter.instanceId)
+    : events;
+}
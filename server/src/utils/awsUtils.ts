@@ -2,15 +2,31 @@ import {
   CreateTagsCommand,
   DescribeInstancesCommand,
   DescribeTagsCommand,
+  StartInstancesCommand,
+  StopInstancesCommand,
+  TerminateInstancesCommand,
 } from "@aws-sdk/client-ec2";
-import { ASG_NAME, autoScalingClient, ec2Client, ssmClient } from "../config/awsConfig";
+import { autoScalingClient, ec2Client, ssmClient } from "../config/awsConfig";
 import {
   DescribeAutoScalingGroupsCommand,
+  DescribeAutoScalingInstancesCommand,
+  EnterStandbyCommand,
+  ExitStandbyCommand,
   SetDesiredCapacityCommand,
   SetInstanceProtectionCommand,
   TerminateInstanceInAutoScalingGroupCommand,
 } from "@aws-sdk/client-auto-scaling";
-import { InstanceInfo } from "../types";
+import { InstanceActivity, InstanceInfo, InstanceReadinessCheck } from "../types";
+import { INSTANCE_ACTIVITY_SCRIPT, parseInstanceActivity } from "./idle";
+import {
+  heartbeatTokenScript,
+  heartbeatTokenWasDelivered,
+} from "./heartbeatAuth";
+import {
+  parseSnapshotSize,
+  snapshotArchiveScript,
+  snapshotRestoreScript,
+} from "./snapshots";
 import logger from "./logger";
 import { GetCommandInvocationCommand, SendCommandCommand } from "@aws-sdk/client-ssm";
 
@@ -63,12 +79,13 @@ export async function getInstanceIP(
 export async function tagInstance(
   instanceId: string,
   userId: string,
-  requestId: string
+  requestId: string,
+  subdomain?: string
 ): Promise<void> {
   const functionName = "tagInstance";
   logger.debug(
     `[${requestId || "system"}] [${functionName}] Tagging instance`,
-    { instanceId, userId }
+    { instanceId, userId, subdomain }
   );
 
   try {
@@ -78,6 +95,8 @@ export async function tagInstance(
         { Key: "Owner", Value: userId },
         { Key: "WarmSpare", Value: userId === "UNASSIGNED" ? "true" : "false" },
         { Key: "ManagedBy", Value: "code-server-manager" },
+        // Lets startup recovery rebuild the user's nginx site
+        { Key: "Subdomain", Value: subdomain || "" },
       ],
     };
     const command = new CreateTagsCommand(input);
@@ -101,6 +120,24 @@ export async function tagInstance(
   }
 }
 
+/**
+ * Instance protection is set per ASG, and tiers spread instances over several
+ */
+async function groupInstancesByASG(
+  instanceIds: string[]
+): Promise<Map<string, string[]>> {
+  const response = await autoScalingClient.send(
+    new DescribeAutoScalingInstancesCommand({ InstanceIds: instanceIds })
+  );
+
+  const byASG = new Map<string, string[]>();
+  for (const instance of response.AutoScalingInstances || []) {
+    const asgName = instance.AutoScalingGroupName!;
+    byASG.set(asgName, [...(byASG.get(asgName) || []), instance.InstanceId!]);
+  }
+  return byASG;
+}
+
 export async function protectActiveInstances(
   activeInstanceIds: string[],
   requestId: string
@@ -121,18 +158,21 @@ export async function protectActiveInstances(
   );
 
   try {
-    const input = {
-      InstanceIds: activeInstanceIds,
-      AutoScalingGroupName: ASG_NAME,
-      ProtectedFromScaleIn: true,
-    };
-    const command = new SetInstanceProtectionCommand(input);
-    await autoScalingClient.send(command);
+    const byASG = await groupInstancesByASG(activeInstanceIds);
+    for (const [asgName, instanceIds] of byASG) {
+      const input = {
+        InstanceIds: instanceIds,
+        AutoScalingGroupName: asgName,
+        ProtectedFromScaleIn: true,
+      };
+      const command = new SetInstanceProtectionCommand(input);
+      await autoScalingClient.send(command);
+    }
 
     logger.info(
       `[${requestId || "system"
       }] [${functionName}] Successfully protected instances`,
-      { instanceCount: activeInstanceIds.length, asgName: ASG_NAME }
+      { instanceCount: activeInstanceIds.length, asgNames: [...byASG.keys()] }
     );
   } catch (error) {
     logger.error(
@@ -140,7 +180,6 @@ export async function protectActiveInstances(
       }] [${functionName}] Failed to protect instances`,
       {
         instanceCount: activeInstanceIds.length,
-        asgName: ASG_NAME,
         error: error instanceof Error ? error.message : "Unknown error",
       }
     );
@@ -149,31 +188,32 @@ export async function protectActiveInstances(
 }
 
 export async function getCurrentASGCapacity(
+  asgName: string,
   requestId: string
 ): Promise<number> {
   const functionName = "getCurrentASGCapacity";
   logger.debug(
     `[${requestId || "system"}] [${functionName}] Getting current ASG capacity`,
-    { asgName: ASG_NAME }
+    { asgName }
   );
 
   try {
     const command = new DescribeAutoScalingGroupsCommand({
-      AutoScalingGroupNames: [ASG_NAME],
+      AutoScalingGroupNames: [asgName],
     });
     const response = await autoScalingClient.send(command);
     const capacity = response.AutoScalingGroups?.[0]?.DesiredCapacity || 0;
 
     logger.info(
       `[${requestId || "system"}] [${functionName}] Retrieved ASG capacity`,
-      { asgName: ASG_NAME, capacity }
+      { asgName, capacity }
     );
     return capacity;
   } catch (error) {
     logger.error(
       `[${requestId || "system"}] [${functionName}] Failed to get ASG capacity`,
       {
-        asgName: ASG_NAME,
+        asgName,
         error: error instanceof Error ? error.message : "Unknown error",
       }
     );
@@ -182,18 +222,19 @@ export async function getCurrentASGCapacity(
 }
 
 export async function updateASGCapacity(
+  asgName: string,
   desiredCapacity: number,
   requestId: string
 ): Promise<void> {
   const functionName = "updateASGCapacity";
   logger.debug(
     `[${requestId || "system"}] [${functionName}] Updating ASG capacity`,
-    { asgName: ASG_NAME, desiredCapacity }
+    { asgName, desiredCapacity }
   );
 
   try {
     const input = {
-      AutoScalingGroupName: ASG_NAME,
+      AutoScalingGroupName: asgName,
       DesiredCapacity: desiredCapacity,
       HonorCooldown: false,
     };
@@ -203,14 +244,14 @@ export async function updateASGCapacity(
     logger.info(
       `[${requestId || "system"
       }] [${functionName}] Successfully updated ASG capacity`,
-      { asgName: ASG_NAME, desiredCapacity }
+      { asgName, desiredCapacity }
     );
   } catch (error) {
     logger.error(
       `[${requestId || "system"
       }] [${functionName}] Failed to update ASG capacity`,
       {
-        asgName: ASG_NAME,
+        asgName,
         desiredCapacity,
         error: error instanceof Error ? error.message : "Unknown error",
       }
@@ -226,7 +267,7 @@ export async function safelyTerminateInstance(
   const functionName = "safelyTerminateInstance";
   logger.debug(
     `[${requestId || "system"}] [${functionName}] Terminating instance`,
-    { instanceId, asgName: ASG_NAME }
+    { instanceId }
   );
 
   try {
@@ -240,7 +281,7 @@ export async function safelyTerminateInstance(
     logger.info(
       `[${requestId || "system"
       }] [${functionName}] Successfully terminated instance`,
-      { instanceId, asgName: ASG_NAME }
+      { instanceId }
     );
   } catch (error) {
     logger.error(
@@ -248,7 +289,6 @@ export async function safelyTerminateInstance(
       }] [${functionName}] Failed to terminate instance`,
       {
         instanceId,
-        asgName: ASG_NAME,
         error: error instanceof Error ? error.message : "Unknown error",
       }
     );
@@ -257,18 +297,19 @@ export async function safelyTerminateInstance(
 }
 
 export async function getASGInstancesInfo(
+  asgName: string,
   requestId: string
 ): Promise<InstanceInfo[]> {
   const functionName = "getASGInstancesInfo";
   logger.debug(
     `[${requestId || "system"}] [${functionName}] Getting ASG instances info`,
-    { asgName: ASG_NAME }
+    { asgName }
   );
 
   try {
     const asgResponse = await autoScalingClient.send(
       new DescribeAutoScalingGroupsCommand({
-        AutoScalingGroupNames: [ASG_NAME],
+        AutoScalingGroupNames: [asgName],
       })
     );
     const instances = asgResponse.AutoScalingGroups?.[0]?.Instances || [];
@@ -278,7 +319,7 @@ export async function getASGInstancesInfo(
       logger.info(
         `[${requestId || "system"
         }] [${functionName}] No instances found in ASG`,
-        { asgName: ASG_NAME }
+        { asgName }
       );
       return [];
     }
@@ -292,7 +333,7 @@ export async function getASGInstancesInfo(
       new DescribeTagsCommand({
         Filters: [
           { Name: "resource-id", Values: instanceIds },
-          { Name: "key", Values: ["Owner"] },
+          { Name: "key", Values: ["Owner", "Subdomain"] },
         ],
       })
     );
@@ -305,12 +346,21 @@ export async function getASGInstancesInfo(
           (tag) => tag.ResourceId === instanceId && tag.Key === "Owner"
         );
         const owner = ownerTag?.Value || "UNKNOWN";
+        const subdomainTag = tagsResponse.Tags?.find(
+          (tag) => tag.ResourceId === instanceId && tag.Key === "Subdomain"
+        );
         const isActive = owner !== "UNASSIGNED" && owner !== "UNKNOWN";
+        const asgInstance = instances.find((i) => i.InstanceId === instanceId);
         instancesInfo.push({
           instanceId,
           owner,
           isActive,
+          isProtected: !!asgInstance?.ProtectedFromScaleIn,
+          isSpot: instance.InstanceLifecycle === "spot",
+          isHibernated: !!asgInstance?.LifecycleState?.startsWith("Standby"),
+          group: asgName,
           publicIp: instance.PublicIpAddress,
+          subdomain: subdomainTag?.Value || undefined,
         });
       }
     }
@@ -318,7 +368,7 @@ export async function getASGInstancesInfo(
     logger.info(
       `[${requestId || "system"}] [${functionName}] Retrieved instances info`,
       {
-        asgName: ASG_NAME,
+        asgName,
         totalInstances: instancesInfo.length,
         activeInstances: instancesInfo.filter((i) => i.isActive).length,
         warmSpares: instancesInfo.filter((i) => !i.isActive).length,
@@ -331,7 +381,7 @@ export async function getASGInstancesInfo(
       `[${requestId || "system"
       }] [${functionName}] Failed to get ASG instances info`,
       {
-        asgName: ASG_NAME,
+        asgName,
         error: error instanceof Error ? error.message : "Unknown error",
       }
     );
@@ -359,18 +409,21 @@ export async function removeInstanceProtection(
   );
 
   try {
-    await autoScalingClient.send(
-      new SetInstanceProtectionCommand({
-        InstanceIds: instanceIds,
-        AutoScalingGroupName: ASG_NAME,
-        ProtectedFromScaleIn: false,
-      })
-    );
+    const byASG = await groupInstancesByASG(instanceIds);
+    for (const [asgName, groupInstanceIds] of byASG) {
+      await autoScalingClient.send(
+        new SetInstanceProtectionCommand({
+          InstanceIds: groupInstanceIds,
+          AutoScalingGroupName: asgName,
+          ProtectedFromScaleIn: false,
+        })
+      );
+    }
 
     logger.info(
       `[${requestId || "system"
       }] [${functionName}] Successfully removed protection from instances`,
-      { instanceCount: instanceIds.length, asgName: ASG_NAME }
+      { instanceCount: instanceIds.length, asgNames: [...byASG.keys()] }
     );
   } catch (error) {
     logger.error(
@@ -378,7 +431,6 @@ export async function removeInstanceProtection(
       }] [${functionName}] Failed to remove protection from instances`,
       {
         instanceCount: instanceIds.length,
-        asgName: ASG_NAME,
         error: error instanceof Error ? error.message : "Unknown error",
       }
     );
@@ -670,7 +722,7 @@ echo "======================================"
 /**
  * Wait for SSM command to complete and check status
  */
-async function waitForSSMCommand(commandId: string, instanceId: string): Promise<void> {
+async function waitForSSMCommand(commandId: string, instanceId: string): Promise<string> {
   const maxAttempts = 30; // 30 attempts * 10 seconds = 5 minutes max
   let attempts = 0;
 
@@ -691,7 +743,7 @@ async function waitForSSMCommand(commandId: string, instanceId: string): Promise
         if (invocation.StandardOutputContent) {
           console.log(`📋 Command output:\n${invocation.StandardOutputContent}`);
         }
-        return;
+        return invocation.StandardOutputContent || "";
       } else if (status === 'Failed') {
         console.error(`❌ SSM command failed`);
         if (invocation.StandardErrorContent) {
@@ -777,4 +829,550 @@ ps aux | grep -E "(code-server|docker)" | head -5 || echo "No relevant processes
   } catch (error) {
     console.error(`Failed to send debug command:`, error);
   }
-}
\ No newline at end of file
+}
+
+export async function checkInstanceReadiness(
+  instanceId: string,
+  requestId: string
+): Promise<InstanceReadinessCheck> {
+  const functionName = "checkInstanceReadiness";
+  logger.debug(
+    `[${requestId || "system"}] [${functionName}] Checking instance readiness`,
+    { instanceId }
+  );
+
+  try {
+    const response = await ec2Client.send(
+      new DescribeInstancesCommand({ InstanceIds: [instanceId] })
+    );
+    const instance = response.Reservations?.[0]?.Instances?.[0];
+
+    if (!instance) {
+      logger.warn(
+        `[${requestId || "system"}] [${functionName}] Instance not found`,
+        { instanceId }
+      );
+      return {
+        hasPublicIp: false,
+        isRunning: false,
+      };
+    }
+
+    const hasPublicIp = !!instance.PublicIpAddress;
+    const isRunning = instance.State?.Name === "running";
+
+    logger.debug(
+      `[${
+        requestId || "system"
+      }] [${functionName}] Instance readiness check completed`,
+      {
+        instanceId,
+        hasPublicIp,
+        isRunning,
+        state: instance.State?.Name,
+        publicIp: instance.PublicIpAddress,
+      }
+    );
+
+    return { hasPublicIp, isRunning };
+  } catch (error) {
+    logger.error(
+      `[${
+        requestId || "system"
+      }] [${functionName}] Failed to check instance readiness`,
+      {
+        instanceId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    return {
+      hasPublicIp: false,
+      isRunning: false,
+    };
+  }
+}
+
+/**
+ * Reset container back to warm spare mode
+ */
+export async function resetToWarmSpare(instanceId: string): Promise<void> {
+  const resetScript = `#!/bin/bash
+CONTAINER_ID=\$(docker ps --filter "name=code-server-" --format "{{.ID}}")
+
+if [ -n "\$CONTAINER_ID" ]; then
+    sudo docker exec -u root \$CONTAINER_ID bash -c "
+        # Remove user symlink
+        sudo rm -rf /tmp/custom-workspace
+        
+        # Recreate warm spare workspace
+        sudo mkdir -p /tmp/custom-workspace
+        echo '🔥 This is a warm spare instance. Waiting for user assignment...' > /tmp/custom-workspace/README.md
+    "
+    
+    echo "✅ Reset to warm spare mode"
+fi
+`;
+
+  try {
+    const command = new SendCommandCommand({
+      InstanceIds: [instanceId],
+      DocumentName: "AWS-RunShellScript",
+      Parameters: { commands: [resetScript] },
+      TimeoutSeconds: 30
+    });
+
+    await ssmClient.send(command);
+  } catch (error) {
+    console.error(`Failed to reset to warm spare:`, error);
+  }
+}
+
+/**
+ * Flush the code-server container's page cache so pending workspace writes
+ * land on EFS. Used when a spot instance is about to be reclaimed.
+ */
+export async function flushWorkspaceToEFS(
+  instanceId: string,
+  requestId: string
+): Promise<void> {
+  const functionName = "flushWorkspaceToEFS";
+  const flushScript = `#!/bin/bash
+CONTAINER_ID=\$(docker ps --filter "name=code-server-" --format "{{.ID}}")
+
+if [ -n "\$CONTAINER_ID" ]; then
+    docker exec \$CONTAINER_ID sync || echo "Container sync failed"
+fi
+sync
+echo "✅ Workspace flushed"
+`;
+
+  logger.info(
+    `[${requestId || "system"}] [${functionName}] Flushing workspace to EFS`,
+    { instanceId }
+  );
+
+  try {
+    const response = await ssmClient.send(
+      new SendCommandCommand({
+        InstanceIds: [instanceId],
+        DocumentName: "AWS-RunShellScript",
+        Parameters: { commands: [flushScript], executionTimeout: ["60"] },
+        TimeoutSeconds: 60,
+      })
+    );
+    const commandId = response.Command?.CommandId;
+    if (!commandId) {
+      throw new Error("No command ID received from SSM");
+    }
+
+    await waitForSSMCommand(commandId, instanceId);
+
+    logger.info(
+      `[${requestId || "system"}] [${functionName}] Workspace flushed`,
+      { instanceId, commandId }
+    );
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to flush workspace`,
+      {
+        instanceId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+/**
+ * Count running terminal processes and open terminals in the code-server
+ * container over SSM
+ */
+export async function getASGInstanceActivity(
+  instanceId: string,
+  requestId: string
+): Promise<InstanceActivity> {
+  const functionName = "getASGInstanceActivity";
+  const checkScript = `#!/bin/bash
+CONTAINER_ID=\$(docker ps --filter "name=code-server-" --format "{{.ID}}")
+
+if [ -z "\$CONTAINER_ID" ]; then
+    echo "0 0"
+    exit 0
+fi
+docker exec -i \$CONTAINER_ID sh -s <<'CHECK'
+${INSTANCE_ACTIVITY_SCRIPT}
+CHECK
+`;
+
+  try {
+    const response = await ssmClient.send(
+      new SendCommandCommand({
+        InstanceIds: [instanceId],
+        DocumentName: "AWS-RunShellScript",
+        Parameters: { commands: [checkScript], executionTimeout: ["30"] },
+        TimeoutSeconds: 30,
+      })
+    );
+    const commandId = response.Command?.CommandId;
+    if (!commandId) {
+      throw new Error("No command ID received from SSM");
+    }
+
+    const activity = parseInstanceActivity(
+      await waitForSSMCommand(commandId, instanceId)
+    );
+
+    logger.debug(
+      `[${requestId || "system"}] [${functionName}] Checked instance activity`,
+      { instanceId, ...activity }
+    );
+
+    return activity;
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to check instance activity`,
+      {
+        instanceId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+/**
+ * Archive the user's EFS directory to /mnt/efs/.snapshots over SSM
+ */
+export async function snapshotASGWorkspace(
+  instanceId: string,
+  userId: string,
+  snapshotId: string,
+  prune: string[],
+  requestId: string
+): Promise<number> {
+  const functionName = "snapshotASGWorkspace";
+  const snapshotScript = `#!/bin/bash
+${snapshotArchiveScript("/mnt/efs", userId, snapshotId, prune)}
+`;
+
+  try {
+    const response = await ssmClient.send(
+      new SendCommandCommand({
+        InstanceIds: [instanceId],
+        DocumentName: "AWS-RunShellScript",
+        Parameters: { commands: [snapshotScript], executionTimeout: ["300"] },
+        TimeoutSeconds: 300,
+      })
+    );
+    const commandId = response.Command?.CommandId;
+    if (!commandId) {
+      throw new Error("No command ID received from SSM");
+    }
+
+    const sizeBytes = parseSnapshotSize(
+      await waitForSSMCommand(commandId, instanceId)
+    );
+
+    logger.info(
+      `[${requestId || "system"}] [${functionName}] Workspace snapshot archived`,
+      { instanceId, userId, snapshotId, sizeBytes, commandId }
+    );
+
+    return sizeBytes;
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to archive workspace snapshot`,
+      {
+        instanceId,
+        userId,
+        snapshotId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+/**
+ * Unpack a snapshot from /mnt/efs/.snapshots into the user's EFS directory
+ * over SSM
+ */
+export async function restoreASGWorkspace(
+  instanceId: string,
+  userId: string,
+  snapshotId: string,
+  requestId: string
+): Promise<void> {
+  const functionName = "restoreASGWorkspace";
+  const restoreScript = `#!/bin/bash
+${snapshotRestoreScript("/mnt/efs", userId, snapshotId)}
+`;
+
+  try {
+    const response = await ssmClient.send(
+      new SendCommandCommand({
+        InstanceIds: [instanceId],
+        DocumentName: "AWS-RunShellScript",
+        Parameters: { commands: [restoreScript], executionTimeout: ["300"] },
+        TimeoutSeconds: 300,
+      })
+    );
+    const commandId = response.Command?.CommandId;
+    if (!commandId) {
+      throw new Error("No command ID received from SSM");
+    }
+
+    await waitForSSMCommand(commandId, instanceId);
+
+    logger.info(
+      `[${requestId || "system"}] [${functionName}] Workspace snapshot restored`,
+      { instanceId, userId, snapshotId, commandId }
+    );
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to restore workspace snapshot`,
+      {
+        instanceId,
+        userId,
+        snapshotId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+/**
+ * Write the heartbeat token into the instance's code-server container over
+ * SSM. A resumed instance may still be starting it, so wait for it first.
+ */
+export async function deliverASGHeartbeatToken(
+  instanceId: string,
+  token: string,
+  requestId: string
+): Promise<boolean> {
+  const functionName = "deliverASGHeartbeatToken";
+  const deliverScript = `#!/bin/bash
+set -e
+for attempt in \$(seq 1 30); do
+    CONTAINER_ID=\$(docker ps --filter "name=code-server-" --format "{{.ID}}" | head -1)
+    [ -n "\$CONTAINER_ID" ] && break
+    sleep 2
+done
+if [ -z "\$CONTAINER_ID" ]; then
+    echo "❌ No code-server container running" >&2
+    exit 1
+fi
+docker exec -i -u root "\$CONTAINER_ID" sh <<'EOF'
+${heartbeatTokenScript(instanceId, token)}
+EOF
+`;
+
+  try {
+    const response = await ssmClient.send(
+      new SendCommandCommand({
+        InstanceIds: [instanceId],
+        DocumentName: "AWS-RunShellScript",
+        Parameters: { commands: [deliverScript], executionTimeout: ["120"] },
+        TimeoutSeconds: 120,
+      })
+    );
+    const commandId = response.Command?.CommandId;
+    if (!commandId) {
+      throw new Error("No command ID received from SSM");
+    }
+
+    const output = await waitForSSMCommand(commandId, instanceId);
+    const delivered = heartbeatTokenWasDelivered(output);
+
+    logger.info(
+      `[${requestId || "system"}] [${functionName}] Heartbeat token ${delivered ? "delivered" : "skipped, no relay"}`,
+      { instanceId, commandId }
+    );
+    return delivered;
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to deliver heartbeat token`,
+      {
+        instanceId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+async function getASGMembership(
+  instanceId: string
+): Promise<{ asgName: string; lifecycleState: string }> {
+  const response = await autoScalingClient.send(
+    new DescribeAutoScalingInstancesCommand({ InstanceIds: [instanceId] })
+  );
+  const instance = response.AutoScalingInstances?.[0];
+  if (!instance) {
+    throw new Error(`Instance ${instanceId} is not in an Auto Scaling group`);
+  }
+  return {
+    asgName: instance.AutoScalingGroupName!,
+    lifecycleState: instance.LifecycleState || "",
+  };
+}
+
+/**
+ * Move an idle instance to Standby (decrementing desired capacity so the ASG
+ * neither replaces nor counts it) and stop it. EC2 hibernation is used when
+ * the launch template enables it, so memory survives as well as disk.
+ * Safe to repeat after a partial failure.
+ */
+export async function hibernateASGInstance(
+  instanceId: string,
+  requestId: string
+): Promise<void> {
+  const functionName = "hibernateASGInstance";
+  logger.debug(
+    `[${requestId || "system"}] [${functionName}] Hibernating instance`,
+    { instanceId }
+  );
+
+  try {
+    const described = await ec2Client.send(
+      new DescribeInstancesCommand({ InstanceIds: [instanceId] })
+    );
+    if (
+      described.Reservations?.[0]?.Instances?.[0]?.InstanceLifecycle === "spot"
+    ) {
+      throw new Error("Spot instances cannot be stopped");
+    }
+
+    const { asgName, lifecycleState } = await getASGMembership(instanceId);
+    if (lifecycleState === "InService") {
+      await autoScalingClient.send(
+        new EnterStandbyCommand({
+          AutoScalingGroupName: asgName,
+          InstanceIds: [instanceId],
+          ShouldDecrementDesiredCapacity: true,
+        })
+      );
+    }
+
+    try {
+      await ec2Client.send(
+        new StopInstancesCommand({ InstanceIds: [instanceId], Hibernate: true })
+      );
+    } catch (error) {
+      if (
+        !(error instanceof Error) ||
+        error.name !== "UnsupportedHibernationConfiguration"
+      ) {
+        throw error;
+      }
+      await ec2Client.send(
+        new StopInstancesCommand({ InstanceIds: [instanceId] })
+      );
+    }
+
+    logger.info(
+      `[${requestId || "system"}] [${functionName}] Instance hibernated`,
+      { instanceId, asgName }
+    );
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to hibernate instance`,
+      {
+        instanceId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+/**
+ * Start a hibernated instance, wait for it to run and return it to service.
+ * The code-server container restarts with Docker (restart unless-stopped).
+ */
+export async function resumeASGInstance(
+  instanceId: string,
+  requestId: string
+): Promise<void> {
+  const functionName = "resumeASGInstance";
+  const maxAttempts = 36; // 36 attempts * 5 seconds = 3 minutes max
+  logger.debug(
+    `[${requestId || "system"}] [${functionName}] Resuming instance`,
+    { instanceId }
+  );
+
+  try {
+    await ec2Client.send(
+      new StartInstancesCommand({ InstanceIds: [instanceId] })
+    );
+
+    let readiness = await checkInstanceReadiness(instanceId, requestId);
+    for (
+      let attempt = 1;
+      attempt < maxAttempts && !(readiness.isRunning && readiness.hasPublicIp);
+      attempt++
+    ) {
+      await new Promise((resolve) => setTimeout(resolve, 5000));
+      readiness = await checkInstanceReadiness(instanceId, requestId);
+    }
+    if (!readiness.isRunning || !readiness.hasPublicIp) {
+      throw new Error(`Instance did not start within ${maxAttempts * 5} seconds`);
+    }
+
+    const { asgName, lifecycleState } = await getASGMembership(instanceId);
+    if (lifecycleState === "Standby") {
+      await autoScalingClient.send(
+        new ExitStandbyCommand({
+          AutoScalingGroupName: asgName,
+          InstanceIds: [instanceId],
+        })
+      );
+    }
+
+    logger.info(
+      `[${requestId || "system"}] [${functionName}] Instance resumed`,
+      { instanceId, asgName }
+    );
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to resume instance`,
+      {
+        instanceId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+/**
+ * Terminate a hibernated instance. It is in Standby and already outside the
+ * desired capacity, so it is terminated through EC2 rather than the ASG.
+ */
+export async function terminateHibernatedASGInstance(
+  instanceId: string,
+  requestId: string
+): Promise<void> {
+  const functionName = "terminateHibernatedASGInstance";
+
+  try {
+    await ec2Client.send(
+      new TerminateInstancesCommand({ InstanceIds: [instanceId] })
+    );
+
+    logger.info(
+      `[${requestId || "system"}] [${functionName}] Terminated hibernated instance`,
+      { instanceId }
+    );
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to terminate hibernated instance`,
+      {
+        instanceId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
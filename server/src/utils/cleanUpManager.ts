@@ -1,34 +1,148 @@
-import { CleanupResult } from "../types";
 import {
-  getASGInstancesInfo,
-  getCurrentASGCapacity,
-  protectActiveInstances,
-  safelyTerminateInstance,
-  updateASGCapacity,
-} from "./awsUtils";
+  CapacityChange,
+  CleanupCycleReport,
+  CleanupPlan,
+  CleanupResult,
+  InstanceActivity,
+  ScheduledJob,
+  WorkspaceInfo,
+  WorkspaceTier,
+} from "../types";
+import computeProvider from "../providers";
 import {
+  AFFINITY_GRACE_MS,
+  CLEANUP_INTERVAL_MS,
+  HIBERNATE_IDLE_INSTANCES,
+  HIBERNATION_RETENTION_MS,
+  INSTANCE_ACTIVITY_CHECK,
+  INSTANCE_ACTIVITY_MAX_EXTENSIONS,
+  WORKSPACE_TIERS,
+} from "../config/awsConfig";
+import {
+  claimHibernatedWorkspace,
   cleanupUserData,
+  endUsageSession,
   getActiveUserCount,
+  extendBusyWorkspace,
+  getBusyExtensions,
+  getExpiredAffinityHolds,
+  getHeldInstanceCount,
+  getHibernatedUsers,
   getIdleUsers,
+  getOpenUsageSession,
+  getPingedUsers,
+  getQueueLength,
   getUserWorkspace,
   getWarmPoolSize,
+  hibernateUserWorkspace,
   removeFromWarmPool,
 } from "./redisUtils";
-import { ssmClient, WARM_SPARE_COUNT } from "../config/awsConfig";
+import { removeWorkspaceNginxConfig } from "./nginxUtils";
+import { getCapacityTarget } from "./sparePolicy";
+import {
+  dispatchQueuedAllocations,
+  holdReleasedInstance,
+  releaseAffinityHold,
+  releaseMachine,
+  terminateHibernatedInstance,
+} from "./machineManager";
+import { getQuotaStatus } from "./quota";
+import { snapshotOnRelease } from "./snapshots";
+import { recordAuditEvent } from "./audit";
 import logger from "./logger";
-import { SendCommandCommand } from "@aws-sdk/client-ssm";
+import {
+  AUDIT_ACTION,
+  AUDIT_REASON,
+  CLEANUP_ACTION,
+  INSTANCE_STATE,
+  SCALING_ACTION,
+  USAGE_END_REASON,
+} from "../lib/enum";
+
+// The cycle in progress, joined by on-demand runs instead of overlapping it
+let runningCycle: Promise<CleanupCycleReport> | null = null;
+
+async function hibernateIdleInstance(
+  instanceId: string,
+  requestId: string
+): Promise<boolean> {
+  const functionName = "hibernateIdleInstance";
+  if (!computeProvider.hibernateInstance) {
+    return false;
+  }
 
-export async function cleanupIdleMachines(
+  try {
+    await computeProvider.hibernateInstance(instanceId, requestId);
+    return true;
+  } catch (error) {
+    logger.warn(
+      `[${requestId || "system"
+      }] [${functionName}] Could not hibernate instance, terminating instead`,
+      {
+        instanceId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    return false;
+  }
+}
+
+/**
+ * What an idle user still has running on their instance, or null if nothing.
+ * A failed check doesn't keep the instance, so a broken agent can't block
+ * cleanup.
+ */
+async function getBusyActivity(
+  instanceId: string,
   requestId: string
+): Promise<InstanceActivity | null> {
+  const functionName = "getBusyActivity";
+  if (!INSTANCE_ACTIVITY_CHECK || !computeProvider.getInstanceActivity) {
+    return null;
+  }
+
+  try {
+    const activity = await computeProvider.getInstanceActivity(
+      instanceId,
+      requestId
+    );
+    // Busy instances are kept for at most INSTANCE_ACTIVITY_MAX_EXTENSIONS
+    // idle timeouts, so a terminal left open doesn't keep one forever
+    return activity.processes > 0 || activity.terminals > 0 ? activity : null;
+  } catch (error) {
+    logger.warn(
+      `[${requestId || "system"
+      }] [${functionName}] Could not check instance activity, treating as idle`,
+      {
+        instanceId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    return null;
+  }
+}
+
+/**
+ * Reap users past their idle deadline. In dry-run mode only the planned
+ * actions are returned.
+ */
+export async function cleanupIdleMachines(
+  requestId: string,
+  dryRun: boolean = false
 ): Promise<CleanupResult> {
   const functionName = "cleanupIdleMachines";
   logger.info(
-    `[${requestId || "system"}] [${functionName}] Starting idle machine cleanup`
+    `[${requestId || "system"}] [${functionName}] Starting idle machine cleanup`,
+    { dryRun }
   );
 
   const result: CleanupResult = {
+    dryRun,
+    actions: [],
     terminatedInstances: [],
+    hibernatedInstances: [],
     cleanedUsers: [],
+    busyUsers: [],
     errors: [],
   };
 
@@ -66,12 +180,145 @@ export async function cleanupIdleMachines(
         }
 
         const instanceId = workspace.instanceId;
+        const plan = (action: CLEANUP_ACTION, reason: string) =>
+          result.actions.push({ userId, instanceId, action, reason });
+        const audit = (
+          action: AUDIT_ACTION,
+          details?: Record<string, boolean>
+        ) =>
+          recordAuditEvent(
+            {
+              action,
+              reason: AUDIT_REASON.IDLE,
+              actor: "system",
+              userId,
+              instanceId,
+              tier: workspace.tier,
+              ...(details && { details }),
+            },
+            requestId
+          );
+
+        const activity = await getBusyActivity(instanceId, requestId);
+        const busyExtensions = activity
+          ? await getBusyExtensions(userId, requestId)
+          : 0;
+        if (activity && busyExtensions < INSTANCE_ACTIVITY_MAX_EXTENSIONS) {
+          plan(
+            CLEANUP_ACTION.KEEP,
+            `Idle in the browser, but ${activity.processes} terminal processes and ${activity.terminals} terminals are open (extension ${busyExtensions + 1} of ${INSTANCE_ACTIVITY_MAX_EXTENSIONS})`
+          );
+          if (dryRun) {
+            continue;
+          }
+
+          // Pushes the deadline out by another idle timeout, so the instance
+          // is asked again then. Browser activity resets the count.
+          await extendBusyWorkspace(userId, instanceId, requestId);
+          result.busyUsers.push(userId);
+
+          logger.info(
+            `[${requestId || "system"
+            }] [${functionName}] Idle user's instance is still busy`,
+            { userId, instanceId, ...activity, busyExtensions: busyExtensions + 1 }
+          );
+          continue;
+        }
+        if (activity) {
+          logger.info(
+            `[${requestId || "system"
+            }] [${functionName}] Busy instance used up its idle extensions, cleaning up`,
+            { userId, instanceId, ...activity, busyExtensions }
+          );
+        }
+
+        if (dryRun) {
+          if (HIBERNATE_IDLE_INSTANCES && computeProvider.hibernateInstance) {
+            plan(
+              CLEANUP_ACTION.HIBERNATE,
+              "Idle past deadline; stopped for the user to resume (terminated if it can't hibernate)"
+            );
+          } else if (AFFINITY_GRACE_MS > 0) {
+            plan(
+              CLEANUP_ACTION.HOLD,
+              `Idle past deadline; held ${AFFINITY_GRACE_MS}ms for the user, then recycled`
+            );
+          } else {
+            plan(CLEANUP_ACTION.TERMINATE, "Idle past deadline");
+          }
+          continue;
+        }
+
+        await snapshotOnRelease(userId, instanceId, requestId);
+
+        if (
+          HIBERNATE_IDLE_INSTANCES &&
+          (await hibernateIdleInstance(instanceId, requestId))
+        ) {
+          // Keeps the user's containers; resumed by their next allocation
+          await hibernateUserWorkspace(userId, workspace, requestId);
+          await endUsageSession(
+            userId,
+            USAGE_END_REASON.IDLE_TIMEOUT,
+            requestId
+          );
+          if (workspace.subdomain) {
+            // The public IP changes on resume; the site is rewritten then
+            await removeWorkspaceNginxConfig(workspace.subdomain);
+          }
+
+          plan(
+            CLEANUP_ACTION.HIBERNATE,
+            "Idle past deadline; stopped for the user to resume"
+          );
+          await audit(AUDIT_ACTION.HIBERNATE);
+          result.hibernatedInstances.push(instanceId);
+          result.cleanedUsers.push(userId);
+
+          logger.info(
+            `[${requestId || "system"
+            }] [${functionName}] Hibernated idle user's instance`,
+            { userId, instanceId }
+          );
+          continue;
+        }
+
+        if (AFFINITY_GRACE_MS > 0) {
+          // Recycled once the hold expires unless the user comes back first
+          await cleanupUserData(userId, instanceId, requestId);
+          await endUsageSession(
+            userId,
+            USAGE_END_REASON.IDLE_TIMEOUT,
+            requestId
+          );
+          await holdReleasedInstance(userId, workspace, requestId);
+          await audit(AUDIT_ACTION.RELEASE, { held: true });
+          plan(
+            CLEANUP_ACTION.HOLD,
+            `Idle past deadline; held ${AFFINITY_GRACE_MS}ms for the user, then recycled`
+          );
+          result.cleanedUsers.push(userId);
 
-        await resetToWarmSpare(instanceId);
+          logger.info(
+            `[${requestId || "system"
+            }] [${functionName}] Holding idle user's instance`,
+            { userId, instanceId, graceMs: AFFINITY_GRACE_MS }
+          );
+          continue;
+        }
+
+        await computeProvider.resetToWarmSpare(instanceId, requestId);
         await removeFromWarmPool(instanceId, requestId);
-        await safelyTerminateInstance(instanceId, requestId);
+        await computeProvider.safelyTerminateInstance(instanceId, requestId);
         await cleanupUserData(userId, instanceId, requestId);
+        await endUsageSession(
+          userId,
+          USAGE_END_REASON.IDLE_TIMEOUT,
+          requestId
+        );
 
+        plan(CLEANUP_ACTION.TERMINATE, "Idle past deadline");
+        await audit(AUDIT_ACTION.TERMINATE);
         result.terminatedInstances.push(instanceId);
         result.cleanedUsers.push(userId);
 
@@ -100,7 +347,11 @@ export async function cleanupIdleMachines(
       }] [${functionName}] Idle machine cleanup completed`,
       {
         terminatedInstances: result.terminatedInstances.length,
+        dryRun,
+        plannedActions: result.actions.length,
+        hibernatedInstances: result.hibernatedInstances.length,
         cleanedUsers: result.cleanedUsers.length,
+        busyUsers: result.busyUsers.length,
         errors: result.errors.length,
       }
     );
@@ -117,30 +368,192 @@ export async function cleanupIdleMachines(
   return result;
 }
 
+/**
+ * Recycle instances whose affinity hold has run out. Returns their IDs.
+ */
+export async function expireAffinityHolds(requestId: string): Promise<string[]> {
+  const functionName = "expireAffinityHolds";
+  const recycled: string[] = [];
+
+  for (const tier of WORKSPACE_TIERS) {
+    for (const userId of await getExpiredAffinityHolds(tier.name, requestId)) {
+      try {
+        const instanceId = await releaseAffinityHold(
+          userId,
+          AUDIT_REASON.HOLD_EXPIRED,
+          requestId
+        );
+        if (instanceId) {
+          recycled.push(instanceId);
+        }
+      } catch (error) {
+        logger.error(
+          `[${requestId || "system"
+          }] [${functionName}] Failed to expire affinity hold`,
+          {
+            userId,
+            tier: tier.name,
+            error: error instanceof Error ? error.message : "Unknown error",
+          }
+        );
+      }
+    }
+  }
+
+  return recycled;
+}
+
+/**
+ * Terminate instances that have been hibernated for longer than
+ * HIBERNATION_RETENTION_MS. Returns the terminated instance IDs.
+ */
+export async function expireHibernatedWorkspaces(
+  requestId: string
+): Promise<string[]> {
+  const functionName = "expireHibernatedWorkspaces";
+  const terminated: string[] = [];
+
+  const expiredUsers = await getHibernatedUsers(
+    requestId,
+    Date.now() - HIBERNATION_RETENTION_MS
+  );
+
+  for (const userId of expiredUsers) {
+    let claimed: WorkspaceInfo | null = null;
+    try {
+      const workspace = await getUserWorkspace(userId, requestId);
+      // A resume that got here first owns the instance now
+      if (
+        workspace?.state !== INSTANCE_STATE.HIBERNATED ||
+        !(await claimHibernatedWorkspace(userId, requestId))
+      ) {
+        continue;
+      }
+      claimed = workspace;
+
+      await terminateHibernatedInstance(workspace.instanceId, requestId);
+      await cleanupUserData(userId, workspace.instanceId, requestId);
+      await recordAuditEvent(
+        {
+          action: AUDIT_ACTION.TERMINATE,
+          reason: AUDIT_REASON.HIBERNATION_EXPIRED,
+          actor: "system",
+          userId,
+          instanceId: workspace.instanceId,
+          tier: workspace.tier,
+        },
+        requestId
+      );
+      terminated.push(workspace.instanceId);
+
+      logger.info(
+        `[${requestId || "system"
+        }] [${functionName}] Hibernation retention ended, terminated instance`,
+        { userId, instanceId: workspace.instanceId }
+      );
+    } catch (error) {
+      logger.error(
+        `[${requestId || "system"
+        }] [${functionName}] Failed to expire hibernated workspace`,
+        {
+          userId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        }
+      );
+      if (claimed) {
+        // Put it back so the next cycle tries again
+        await hibernateUserWorkspace(
+          userId,
+          claimed,
+          requestId,
+          Number(claimed.hibernatedAt) || Date.now()
+        ).catch(() => undefined);
+      }
+    }
+  }
+
+  return terminated;
+}
+
+/**
+ * Release running workspaces whose monthly quota has run out. Returns the
+ * users that were released.
+ */
+export async function enforceQuotas(requestId: string): Promise<string[]> {
+  const functionName = "enforceQuotas";
+  const released: string[] = [];
+
+  for (const userId of await getPingedUsers(requestId)) {
+    try {
+      const session = await getOpenUsageSession(userId, requestId);
+      if (!session) {
+        continue;
+      }
+
+      const quota = await getQuotaStatus(userId, session.orgId, requestId);
+      if (!quota?.exhausted) {
+        continue;
+      }
+
+      logger.info(
+        `[${requestId || "system"
+        }] [${functionName}] Quota exhausted, releasing workspace`,
+        { userId, orgId: session.orgId, scope: quota.scope, usedMs: quota.usedMs }
+      );
+      const result = await releaseMachine(
+        userId,
+        requestId,
+        USAGE_END_REASON.QUOTA_EXHAUSTED
+      );
+      if (result.success) {
+        released.push(userId);
+      }
+    } catch (error) {
+      logger.error(
+        `[${requestId || "system"
+        }] [${functionName}] Failed to enforce quota for user`,
+        {
+          userId,
+          error: error instanceof Error ? error.message : "Unknown error",
+        }
+      );
+    }
+  }
+
+  return released;
+}
+
 export async function safeScaleDown(
+  group: string,
   targetCapacity: number,
   requestId: string
 ): Promise<void> {
   const functionName = "safeScaleDown";
   logger.debug(
     `[${requestId || "system"}] [${functionName}] Starting safe scale down`,
-    { targetCapacity }
+    { group, targetCapacity }
   );
 
   try {
-    const currentCapacity = await getCurrentASGCapacity(requestId);
+    const currentCapacity = await computeProvider.getCurrentCapacity(
+      group,
+      requestId
+    );
 
     if (targetCapacity >= currentCapacity) {
       logger.debug(
         `[${requestId || "system"
         }] [${functionName}] Target capacity is not less than current, no scaling needed`,
-        { currentCapacity, targetCapacity }
+        { group, currentCapacity, targetCapacity }
       );
       return;
     }
 
     // Get all instances and identify active ones
-    const instancesInfo = await getASGInstancesInfo(requestId);
+    const instancesInfo = await computeProvider.getInstancesInfo(
+      group,
+      requestId
+    );
     const activeInstances = instancesInfo
       .filter((instance) => instance.isActive)
       .map((instance) => instance.instanceId);
@@ -149,6 +562,7 @@ export async function safeScaleDown(
       `[${requestId || "system"
       }] [${functionName}] Protecting active instances before scale down`,
       {
+        group,
         activeInstanceCount: activeInstances.length,
         targetCapacity,
         currentCapacity,
@@ -157,16 +571,31 @@ export async function safeScaleDown(
 
     // Protect active instances
     if (activeInstances.length > 0) {
-      await protectActiveInstances(activeInstances, requestId);
+      await computeProvider.protectActiveInstances(activeInstances, requestId);
     }
 
     // Scale down - ASG will only terminate unprotected instances
-    await updateASGCapacity(targetCapacity, requestId);
+    await computeProvider.updateCapacity(group, targetCapacity, requestId);
+    await recordAuditEvent(
+      {
+        action: AUDIT_ACTION.SCALE_IN,
+        reason: AUDIT_REASON.CAPACITY,
+        actor: "system",
+        details: {
+          group,
+          fromCapacity: currentCapacity,
+          toCapacity: targetCapacity,
+          protectedInstances: activeInstances.length,
+        },
+      },
+      requestId
+    );
 
     logger.info(
       `[${requestId || "system"
       }] [${functionName}] Successfully scaled down capacity`,
       {
+        group,
         currentCapacity,
         targetCapacity,
         protectedInstances: activeInstances.length,
@@ -177,6 +606,7 @@ export async function safeScaleDown(
       `[${requestId || "system"
       }] [${functionName}] Failed to scale down safely`,
       {
+        group,
         targetCapacity,
         error: error instanceof Error ? error.message : "Unknown error",
       }
@@ -185,151 +615,225 @@ export async function safeScaleDown(
   }
 }
 
+/**
+ * Bring every tier's group to its active + queued + warm spare target and
+ * return the change made to each. A failing tier is logged and does not hold
+ * back the others. In dry-run mode nothing is scaled.
+ */
 export async function ensureOptimalWarmSpares(
-  requestId: string
-): Promise<void> {
+  requestId: string,
+  dryRun: boolean = false
+): Promise<CapacityChange[]> {
+  const changes: CapacityChange[] = [];
+  let firstError: unknown = null;
+  for (const tier of WORKSPACE_TIERS) {
+    try {
+      changes.push(await ensureTierWarmSpares(tier, requestId, dryRun));
+    } catch (error) {
+      firstError ??= error;
+    }
+  }
+  if (firstError) {
+    throw firstError;
+  }
+  return changes;
+}
+
+async function ensureTierWarmSpares(
+  tier: WorkspaceTier,
+  requestId: string,
+  dryRun: boolean
+): Promise<CapacityChange> {
   const functionName = "ensureOptimalWarmSpares";
   logger.debug(
     `[${requestId || "system"
-    }] [${functionName}] Ensuring optimal warm spare count`
+    }] [${functionName}] Ensuring optimal warm spare count`,
+    { tier: tier.name }
   );
 
   try {
-    const activeUsers = await getActiveUserCount(requestId);
-    const warmPoolSize = await getWarmPoolSize(requestId);
-    const currentCapacity = await getCurrentASGCapacity(requestId);
-    const targetCapacity = activeUsers + WARM_SPARE_COUNT;
+    const activeUsers = await getActiveUserCount(requestId, tier.name);
+    const heldInstances = await getHeldInstanceCount(requestId, tier.name);
+    const queuedUsers = await getQueueLength(requestId, tier.name);
+    const warmPoolSize = await getWarmPoolSize(requestId, tier.name);
+    const currentCapacity = await computeProvider.getCurrentCapacity(
+      tier.group,
+      requestId
+    );
+    const target = await getCapacityTarget(tier.name, requestId);
+    const targetCapacity = Math.min(
+      activeUsers + heldInstances + queuedUsers + target.warmSpares,
+      target.maxMachines
+    );
 
     logger.debug(
       `[${requestId || "system"}] [${functionName}] Current system state`,
       {
+        tier: tier.name,
         activeUsers,
+        heldInstances,
+        queuedUsers,
         warmPoolSize,
         currentCapacity,
         targetCapacity,
-        warmSpareCount: WARM_SPARE_COUNT,
+        warmSpareCount: target.warmSpares,
+        sparePolicy: target.policy?.name || "default",
       }
     );
 
+    const change: CapacityChange = {
+      tier: tier.name,
+      group: tier.group,
+      currentCapacity,
+      targetCapacity,
+      warmPoolSize,
+      action: SCALING_ACTION.NONE,
+      reason: "Capacity is optimal",
+      applied: false,
+    };
+    const demand = `${activeUsers} active + ${heldInstances} held + ${queuedUsers} queued + ${target.warmSpares} warm spares (${target.policy?.name || "default"} policy, max ${target.maxMachines})`;
+
     if (currentCapacity < targetCapacity) {
       // Scale up
-      logger.info(
-        `[${requestId || "system"
-        }] [${functionName}] Scaling up to meet demand`,
-        { currentCapacity, targetCapacity }
-      );
-      await updateASGCapacity(targetCapacity, requestId);
+      change.action = SCALING_ACTION.SCALE_UP;
+      change.reason = `Demand is ${demand}`;
+      if (!dryRun) {
+        logger.info(
+          `[${requestId || "system"
+          }] [${functionName}] Scaling up to meet demand`,
+          { tier: tier.name, currentCapacity, targetCapacity }
+        );
+        await computeProvider.updateCapacity(
+          tier.group,
+          targetCapacity,
+          requestId
+        );
+        change.applied = true;
+      }
     } else if (
       currentCapacity > targetCapacity &&
-      warmPoolSize > WARM_SPARE_COUNT
+      warmPoolSize > target.warmSpares
     ) {
       // Too many warm spares, scale down safely
-      logger.info(
-        `[${requestId || "system"
-        }] [${functionName}] Too many warm spares, scaling down`,
-        {
-          currentCapacity,
-          targetCapacity,
-          warmPoolSize,
-          warmSpareCount: WARM_SPARE_COUNT,
-        }
-      );
-      await safeScaleDown(targetCapacity, requestId);
+      change.action = SCALING_ACTION.SCALE_DOWN;
+      change.reason = `${warmPoolSize} warm spares for a target of ${target.warmSpares}; demand is ${demand}`;
+      if (!dryRun) {
+        logger.info(
+          `[${requestId || "system"
+          }] [${functionName}] Too many warm spares, scaling down`,
+          {
+            tier: tier.name,
+            currentCapacity,
+            targetCapacity,
+            warmPoolSize,
+            warmSpareCount: target.warmSpares,
+          }
+        );
+        await safeScaleDown(tier.group, targetCapacity, requestId);
+        change.applied = true;
+      }
     } else {
       logger.debug(
         `[${requestId || "system"}] [${functionName}] Capacity is optimal`,
-        { currentCapacity, targetCapacity, warmPoolSize }
+        { tier: tier.name, currentCapacity, targetCapacity, warmPoolSize }
       );
     }
+
+    return change;
   } catch (error) {
     logger.error(
       `[${requestId || "system"
       }] [${functionName}] Failed to ensure optimal warm spares`,
-      { error: error instanceof Error ? error.message : "Unknown error" }
+      {
+        tier: tier.name,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
     );
     throw error;
   }
 }
 
 /**
- * Start periodic cleanup process
+ * What the next cleanup cycle would do to idle users and tier capacity,
+ * without doing it
  */
-export function startCleanupProcess(): NodeJS.Timeout {
-  const functionName = "startCleanupProcess";
-  logger.info(`[system] [${functionName}] Starting periodic cleanup process`);
+export async function planCleanup(requestId: string): Promise<CleanupPlan> {
+  const cleanup = await cleanupIdleMachines(requestId, true);
+  const scaling = await ensureOptimalWarmSpares(requestId, true);
+  return { cleanup, scaling };
+}
 
-  const cleanupInterval = setInterval(async () => {
-    const requestId = `cleanup-${Date.now()}`;
-    try {
-      logger.debug(
-        `[${requestId}] [${functionName}] Running periodic cleanup cycle`
-      );
+async function executeCleanupCycle(
+  requestId: string
+): Promise<CleanupCycleReport> {
+  const functionName = "runCleanupCycle";
+  logger.debug(`[${requestId}] [${functionName}] Running cleanup cycle`);
 
-      // Clean up idle machines
-      const cleanupResult = await cleanupIdleMachines(requestId);
+  // Clean up idle machines
+  const cleanup = await cleanupIdleMachines(requestId);
 
-      // Ensure optimal capacity
-      await ensureOptimalWarmSpares(requestId);
+  // Recycle instances whose users did not return within the grace period
+  const holdsExpired = await expireAffinityHolds(requestId);
 
-      logger.info(
-        `[${requestId}] [${functionName}] Periodic cleanup cycle completed`,
-        {
-          terminatedInstances: cleanupResult.terminatedInstances.length,
-          cleanedUsers: cleanupResult.cleanedUsers.length,
-          errors: cleanupResult.errors.length,
-        }
-      );
-    } catch (error) {
-      logger.error(`[${requestId}] [${functionName}] Periodic cleanup error`, {
-        error: error instanceof Error ? error.message : "Unknown error",
-      });
-    }
-  }, 60000); // Run every minute
+  // Terminate instances hibernated past the retention window
+  const hibernationExpired = await expireHibernatedWorkspaces(requestId);
 
-  return cleanupInterval;
-}
+  // Release workspaces that ran out of monthly quota
+  const quotaReleased = await enforceQuotas(requestId);
 
-/**
- * Stop cleanup process
- */
-export function stopCleanupProcess(interval: NodeJS.Timeout): void {
-  const functionName = "stopCleanupProcess";
-  clearInterval(interval);
-  logger.info(`[system] [${functionName}] Stopped cleanup process`);
-}
+  // Ensure optimal capacity
+  const scaling = await ensureOptimalWarmSpares(requestId);
+
+  // Serve queued users from any warm spares a missed hand-off left behind
+  await dispatchQueuedAllocations(requestId);
 
+  logger.info(`[${requestId}] [${functionName}] Cleanup cycle completed`, {
+    terminatedInstances: cleanup.terminatedInstances.length,
+    hibernatedInstances: cleanup.hibernatedInstances.length,
+    hibernationExpired: hibernationExpired.length,
+    holdsExpired: holdsExpired.length,
+    cleanedUsers: cleanup.cleanedUsers.length,
+    busyUsers: cleanup.busyUsers.length,
+    quotaReleased: quotaReleased.length,
+    scaledTiers: scaling.filter((change) => change.applied).length,
+    errors: cleanup.errors.length,
+  });
+
+  return { cleanup, scaling, holdsExpired, hibernationExpired, quotaReleased };
+}
 
 /**
- * Reset container back to warm spare mode
+ * Run a cleanup cycle now. A cycle already in progress is joined rather
+ * than started twice.
  */
-async function resetToWarmSpare(instanceId: string): Promise<void> {
-  const resetScript = `#!/bin/bash
-CONTAINER_ID=\$(docker ps --filter "name=code-server-" --format "{{.ID}}")
-
-if [ -n "\$CONTAINER_ID" ]; then
-    sudo docker exec -u root \$CONTAINER_ID bash -c "
-        # Remove user symlink
-        sudo rm -rf /tmp/custom-workspace
-        
-        # Recreate warm spare workspace
-        sudo mkdir -p /tmp/custom-workspace
-        echo '🔥 This is a warm spare instance. Waiting for user assignment...' > /tmp/custom-workspace/README.md
-    "
-    
-    echo "✅ Reset to warm spare mode"
-fi
-`;
-
-  try {
-    const command = new SendCommandCommand({
-      InstanceIds: [instanceId],
-      DocumentName: "AWS-RunShellScript",
-      Parameters: { commands: [resetScript] },
-      TimeoutSeconds: 30
+export function runCleanupCycle(
+  requestId: string
+): Promise<CleanupCycleReport> {
+  if (!runningCycle) {
+    runningCycle = executeCleanupCycle(requestId).finally(() => {
+      runningCycle = null;
     });
-
-    await ssmClient.send(command);
-  } catch (error) {
-    console.error(`Failed to reset to warm spare:`, error);
   }
-}
\ No newline at end of file
+  return runningCycle;
+}
+
+export const cleanupJob: ScheduledJob = {
+  name: "cleanup",
+  intervalMs: CLEANUP_INTERVAL_MS,
+  run: async (requestId) => {
+    const report = await runCleanupCycle(requestId);
+    return {
+      summary: {
+        terminatedInstances: report.cleanup.terminatedInstances.length,
+        hibernatedInstances: report.cleanup.hibernatedInstances.length,
+        cleanedUsers: report.cleanup.cleanedUsers.length,
+        busyUsers: report.cleanup.busyUsers.length,
+        holdsExpired: report.holdsExpired.length,
+        hibernationExpired: report.hibernationExpired.length,
+        quotaReleased: report.quotaReleased.length,
+        scaledTiers: report.scaling.filter((change) => change.applied).length,
+      },
+      errors: report.cleanup.errors,
+    };
+  },
+};
@@ -0,0 +1,962 @@
+import { execFile } from "child_process";
+import { randomBytes } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { promisify } from "util";
+import {
+  DOCKER_HOST_ADDRESS,
+  DOCKER_IMAGE,
+  DOCKER_PORT_RANGE_START,
+  DOCKER_STATE_FILE,
+  DOCKER_WORKSPACE_ROOT,
+} from "../config/awsConfig";
+import {
+  DockerProviderState,
+  InstanceActivity,
+  InstanceInfo,
+  InstanceLifecycleEvent,
+  InstanceLifecycleListener,
+  InstanceReadinessCheck,
+} from "../types";
+import { INSTANCE_ACTIVITY_SCRIPT, parseInstanceActivity } from "./idle";
+import {
+  heartbeatTokenScript,
+  heartbeatTokenWasDelivered,
+} from "./heartbeatAuth";
+import {
+  parseSnapshotSize,
+  snapshotArchiveScript,
+  snapshotRestoreScript,
+} from "./snapshots";
+import logger from "./logger";
+
+const execFileAsync = promisify(execFile);
+
+const POOL_LABEL = "code-server-manager.pool";
+const PORT_LABEL = "code-server-manager.port";
+const CONTAINER_WORKSPACE = "/tmp/custom-workspace";
+
+interface DockerContainer {
+  instanceId: string;
+  pool: string;
+  isRunning: boolean;
+  port: number | null;
+}
+
+const lifecycleListeners: InstanceLifecycleListener[] = [];
+
+// Serializes state file writes and capacity changes within this process
+let stateLock: Promise<unknown> = Promise.resolve();
+
+function withStateLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = stateLock.then(fn, fn);
+  stateLock = run.catch(() => undefined);
+  return run;
+}
+
+async function docker(args: string[]): Promise<string> {
+  const { stdout } = await execFileAsync("docker", args);
+  return stdout.trim();
+}
+
+async function adoptRunningCapacity(): Promise<Record<string, number>> {
+  const desiredCapacity: Record<string, number> = {};
+  for (const container of await listContainers()) {
+    desiredCapacity[container.pool] = (desiredCapacity[container.pool] || 0) + 1;
+  }
+  return desiredCapacity;
+}
+
+async function readState(): Promise<DockerProviderState> {
+  try {
+    const raw = await fs.readFile(DOCKER_STATE_FILE, "utf8");
+    const state = JSON.parse(raw) as DockerProviderState;
+    return {
+      ...state,
+      // State files from before tiers hold a single number; start from what runs
+      desiredCapacity:
+        typeof state.desiredCapacity === "object" && state.desiredCapacity
+          ? state.desiredCapacity
+          : await adoptRunningCapacity(),
+      subdomains: state.subdomains || {},
+      hibernatedInstances: state.hibernatedInstances || [],
+    };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      throw error;
+    }
+    // First start: adopt whatever containers already exist
+    return {
+      desiredCapacity: await adoptRunningCapacity(),
+      tags: {},
+      subdomains: {},
+      protectedInstances: [],
+      hibernatedInstances: [],
+    };
+  }
+}
+
+async function writeState(state: DockerProviderState): Promise<void> {
+  await fs.mkdir(path.dirname(DOCKER_STATE_FILE), { recursive: true });
+  const tmpFile = `${DOCKER_STATE_FILE}.tmp`;
+  await fs.writeFile(tmpFile, JSON.stringify(state, null, 2));
+  await fs.rename(tmpFile, DOCKER_STATE_FILE);
+}
+
+async function listContainers(pool?: string): Promise<DockerContainer[]> {
+  const output = await docker([
+    "ps",
+    "-a",
+    "--filter",
+    pool ? `label=${POOL_LABEL}=${pool}` : `label=${POOL_LABEL}`,
+    "--format",
+    `{{.Names}}\t{{.State}}\t{{.Label "${POOL_LABEL}"}}\t{{.Label "${PORT_LABEL}"}}`,
+  ]);
+
+  return output
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => {
+      const [instanceId, state, containerPool, port] = line.split("\t");
+      return {
+        instanceId,
+        pool: containerPool,
+        isRunning: state === "running",
+        port: port ? Number(port) : null,
+      };
+    });
+}
+
+async function findContainer(
+  instanceId: string
+): Promise<DockerContainer | null> {
+  const containers = await listContainers();
+  return containers.find((c) => c.instanceId === instanceId) || null;
+}
+
+function emitLifecycleEvent(
+  event: InstanceLifecycleEvent,
+  instanceId: string,
+  pool: string,
+  requestId: string
+): void {
+  for (const listener of lifecycleListeners) {
+    setImmediate(() => listener(event, instanceId, pool, requestId));
+  }
+}
+
+export function onDockerLifecycleEvent(
+  listener: InstanceLifecycleListener
+): void {
+  lifecycleListeners.push(listener);
+}
+
+/**
+ * (Re)create the container for an instance. With a userId the workspace
+ * directories are mounted the same way setupUserWorkspaceSymlink does on EC2.
+ */
+async function runContainer(
+  instanceId: string,
+  pool: string,
+  port: number,
+  userId?: string
+): Promise<void> {
+  const args = [
+    "run",
+    "-d",
+    "--name",
+    instanceId,
+    "--restart",
+    "unless-stopped",
+    "--label",
+    `${POOL_LABEL}=${pool}`,
+    "--label",
+    `${PORT_LABEL}=${port}`,
+    "-p",
+    `${DOCKER_HOST_ADDRESS}:${port}:8080`,
+  ];
+
+  if (process.env.ROUTER_URL) {
+    args.push("-e", `ROUTER_URL=${process.env.ROUTER_URL}`);
+  }
+
+  if (userId) {
+    const userDir = path.join(DOCKER_WORKSPACE_ROOT, userId);
+    args.push(
+      "-v",
+      `${userDir}/workspace:${CONTAINER_WORKSPACE}`,
+      "-v",
+      `${userDir}/.vscode-server:/home/coder/.vscode-server`,
+      "-v",
+      `${userDir}/.config:/home/coder/.config`,
+      "-v",
+      `${userDir}/.local:/home/coder/.local`
+    );
+  }
+
+  args.push(DOCKER_IMAGE);
+  await docker(args);
+}
+
+async function replaceContainer(
+  instanceId: string,
+  userId?: string
+): Promise<void> {
+  const container = await findContainer(instanceId);
+  if (!container || !container.port) {
+    throw new Error(`Container ${instanceId} not found`);
+  }
+
+  await docker(["rm", "-f", instanceId]);
+  await runContainer(instanceId, container.pool, container.port, userId);
+}
+
+async function launchInstances(
+  pool: string,
+  count: number,
+  requestId: string
+): Promise<void> {
+  const functionName = "launchInstances";
+  const containers = await listContainers();
+  const usedPorts = new Set(containers.map((c) => c.port));
+
+  let port = DOCKER_PORT_RANGE_START;
+  for (let i = 0; i < count; i++) {
+    while (usedPorts.has(port)) port++;
+    usedPorts.add(port);
+
+    const instanceId = `ws-${randomBytes(4).toString("hex")}`;
+    await runContainer(instanceId, pool, port);
+
+    logger.info(
+      `[${requestId || "system"}] [${functionName}] Launched container`,
+      { instanceId, pool, port }
+    );
+    emitLifecycleEvent("launch", instanceId, pool, requestId);
+  }
+}
+
+async function terminateContainer(
+  state: DockerProviderState,
+  container: DockerContainer,
+  requestId: string
+): Promise<void> {
+  const functionName = "terminateContainer";
+  const { instanceId, pool } = container;
+
+  await docker(["rm", "-f", instanceId]);
+  delete state.tags[instanceId];
+  delete state.subdomains[instanceId];
+  state.protectedInstances = state.protectedInstances.filter(
+    (id) => id !== instanceId
+  );
+  state.hibernatedInstances = state.hibernatedInstances.filter(
+    (id) => id !== instanceId
+  );
+
+  logger.info(
+    `[${requestId || "system"}] [${functionName}] Removed container`,
+    { instanceId, pool }
+  );
+  emitLifecycleEvent("terminate", instanceId, pool, requestId);
+}
+
+/**
+ * Converge running containers on desiredCapacity. Like ASG scale-in, only
+ * unprotected containers are removed, warm spares first. Hibernated
+ * containers are outside the capacity, like instances in ASG Standby.
+ */
+async function reconcileContainers(
+  state: DockerProviderState,
+  pool: string,
+  requestId: string
+): Promise<void> {
+  const functionName = "reconcileContainers";
+  const containers = (await listContainers(pool)).filter(
+    (c) => !state.hibernatedInstances.includes(c.instanceId)
+  );
+  const desiredCapacity = state.desiredCapacity[pool] || 0;
+
+  if (containers.length < desiredCapacity) {
+    await launchInstances(pool, desiredCapacity - containers.length, requestId);
+    return;
+  }
+
+  let excess = containers.length - desiredCapacity;
+  if (excess <= 0) return;
+
+  const candidates = containers
+    .filter((c) => !state.protectedInstances.includes(c.instanceId))
+    .sort(
+      (a, b) =>
+        Number(state.tags[b.instanceId] === "UNASSIGNED") -
+        Number(state.tags[a.instanceId] === "UNASSIGNED")
+    );
+
+  for (const container of candidates) {
+    if (excess === 0) break;
+    await terminateContainer(state, container, requestId);
+    excess--;
+  }
+
+  if (excess > 0) {
+    logger.warn(
+      `[${requestId || "system"
+      }] [${functionName}] Protected containers exceed desired capacity`,
+      { pool, desiredCapacity, remaining: excess }
+    );
+  }
+}
+
+export async function getDockerInstanceAddress(
+  instanceId: string,
+  requestId: string
+): Promise<string | null> {
+  const functionName = "getDockerInstanceAddress";
+  logger.debug(
+    `[${requestId || "system"}] [${functionName}] Getting container address`,
+    { instanceId }
+  );
+
+  try {
+    const container = await findContainer(instanceId);
+    if (!container?.isRunning || !container.port) {
+      logger.warn(
+        `[${requestId || "system"
+        }] [${functionName}] Container not running or has no published port`,
+        { instanceId }
+      );
+      return null;
+    }
+
+    return `${DOCKER_HOST_ADDRESS}:${container.port}`;
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"
+      }] [${functionName}] Failed to get container address`,
+      {
+        instanceId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+export async function checkContainerReadiness(
+  instanceId: string,
+  requestId: string
+): Promise<InstanceReadinessCheck> {
+  const functionName = "checkContainerReadiness";
+  logger.debug(
+    `[${requestId || "system"}] [${functionName}] Checking container readiness`,
+    { instanceId }
+  );
+
+  try {
+    const container = await findContainer(instanceId);
+    return {
+      isRunning: !!container?.isRunning,
+      hasPublicIp: !!container?.port,
+    };
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"
+      }] [${functionName}] Failed to check container readiness`,
+      {
+        instanceId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    return { hasPublicIp: false, isRunning: false };
+  }
+}
+
+export async function tagContainer(
+  instanceId: string,
+  userId: string,
+  requestId: string,
+  subdomain?: string
+): Promise<void> {
+  const functionName = "tagContainer";
+  logger.debug(
+    `[${requestId || "system"}] [${functionName}] Tagging container`,
+    { instanceId, userId, subdomain }
+  );
+
+  try {
+    await withStateLock(async () => {
+      const state = await readState();
+      state.tags[instanceId] = userId;
+      if (subdomain) state.subdomains[instanceId] = subdomain;
+      else delete state.subdomains[instanceId];
+      await writeState(state);
+    });
+
+    logger.info(
+      `[${requestId || "system"}] [${functionName}] Successfully tagged container`,
+      { instanceId, userId }
+    );
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to tag container`,
+      {
+        instanceId,
+        userId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+export async function setContainerProtection(
+  instanceIds: string[],
+  isProtected: boolean,
+  requestId: string
+): Promise<void> {
+  const functionName = "setContainerProtection";
+  logger.debug(
+    `[${requestId || "system"}] [${functionName}] Updating container protection`,
+    { instanceIds, isProtected }
+  );
+
+  try {
+    await withStateLock(async () => {
+      const state = await readState();
+      const protectedSet = new Set(state.protectedInstances);
+      for (const instanceId of instanceIds) {
+        if (isProtected) protectedSet.add(instanceId);
+        else protectedSet.delete(instanceId);
+      }
+      state.protectedInstances = [...protectedSet];
+      await writeState(state);
+    });
+
+    logger.info(
+      `[${requestId || "system"
+      }] [${functionName}] Successfully updated container protection`,
+      { instanceIds, isProtected }
+    );
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"
+      }] [${functionName}] Failed to update container protection`,
+      {
+        instanceIds,
+        isProtected,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+export async function getDockerCapacity(
+  pool: string,
+  requestId: string
+): Promise<number> {
+  const functionName = "getDockerCapacity";
+
+  try {
+    const state = await readState();
+    const capacity = state.desiredCapacity[pool] || 0;
+    logger.info(
+      `[${requestId || "system"}] [${functionName}] Retrieved container capacity`,
+      { pool, capacity }
+    );
+    return capacity;
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"
+      }] [${functionName}] Failed to get container capacity`,
+      {
+        pool,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+export async function updateDockerCapacity(
+  pool: string,
+  desiredCapacity: number,
+  requestId: string
+): Promise<void> {
+  const functionName = "updateDockerCapacity";
+  logger.debug(
+    `[${requestId || "system"}] [${functionName}] Updating container capacity`,
+    { pool, desiredCapacity }
+  );
+
+  try {
+    await withStateLock(async () => {
+      const state = await readState();
+      state.desiredCapacity[pool] = desiredCapacity;
+      await reconcileContainers(state, pool, requestId);
+      await writeState(state);
+    });
+
+    logger.info(
+      `[${requestId || "system"
+      }] [${functionName}] Successfully updated container capacity`,
+      { pool, desiredCapacity }
+    );
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"
+      }] [${functionName}] Failed to update container capacity`,
+      {
+        pool,
+        desiredCapacity,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+export async function terminateDockerInstance(
+  instanceId: string,
+  requestId: string
+): Promise<void> {
+  const functionName = "terminateDockerInstance";
+  logger.debug(
+    `[${requestId || "system"}] [${functionName}] Terminating container`,
+    { instanceId }
+  );
+
+  try {
+    // Mirrors TerminateInstanceInAutoScalingGroup with ShouldDecrementDesiredCapacity
+    await withStateLock(async () => {
+      const container = await findContainer(instanceId);
+      if (!container) {
+        throw new Error(`Container ${instanceId} not found`);
+      }
+
+      const state = await readState();
+      await terminateContainer(state, container, requestId);
+      state.desiredCapacity[container.pool] = Math.max(
+        0,
+        (state.desiredCapacity[container.pool] || 0) - 1
+      );
+      await writeState(state);
+    });
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to terminate container`,
+      {
+        instanceId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+export async function getDockerInstancesInfo(
+  pool: string,
+  requestId: string
+): Promise<InstanceInfo[]> {
+  const functionName = "getDockerInstancesInfo";
+
+  try {
+    const [containers, state] = await Promise.all([
+      listContainers(pool),
+      readState(),
+    ]);
+
+    const instancesInfo = containers.map((container) => {
+      const owner = state.tags[container.instanceId] || "UNKNOWN";
+      return {
+        instanceId: container.instanceId,
+        owner,
+        isActive: owner !== "UNASSIGNED" && owner !== "UNKNOWN",
+        isProtected: state.protectedInstances.includes(container.instanceId),
+        isHibernated: state.hibernatedInstances.includes(container.instanceId),
+        subdomain: state.subdomains[container.instanceId],
+        group: pool,
+        publicIp: container.port
+          ? `${DOCKER_HOST_ADDRESS}:${container.port}`
+          : undefined,
+      };
+    });
+
+    logger.info(
+      `[${requestId || "system"}] [${functionName}] Retrieved containers info`,
+      {
+        pool,
+        totalInstances: instancesInfo.length,
+        activeInstances: instancesInfo.filter((i) => i.isActive).length,
+        warmSpares: instancesInfo.filter((i) => !i.isActive).length,
+      }
+    );
+
+    return instancesInfo;
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"
+      }] [${functionName}] Failed to get containers info`,
+      {
+        pool,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+/**
+ * Create the user's persistent directories under DOCKER_WORKSPACE_ROOT and
+ * restart the container with them mounted.
+ */
+export async function setupDockerWorkspace(
+  instanceId: string,
+  userId: string,
+  requestId: string
+): Promise<void> {
+  const functionName = "setupDockerWorkspace";
+  logger.debug(
+    `[${requestId || "system"}] [${functionName}] Setting up persistent workspace`,
+    { instanceId, userId }
+  );
+
+  try {
+    const userDir = path.join(DOCKER_WORKSPACE_ROOT, userId);
+    const marker = path.join(userDir, ".workspace-initialized");
+
+    for (const dir of [
+      "workspace/projects",
+      "workspace/temp",
+      "workspace/bin",
+      ".vscode-server/data/User",
+      ".vscode-server/extensions",
+      ".config/code-server",
+      ".local/share/code-server",
+    ]) {
+      await fs.mkdir(path.join(userDir, dir), { recursive: true });
+    }
+
+    const initialized = await fs
+      .access(marker)
+      .then(() => true)
+      .catch(() => false);
+    if (!initialized) {
+      await fs.writeFile(
+        path.join(userDir, "workspace/README.md"),
+        `# Welcome ${userId}!\n\nFiles under this folder persist between sessions.\n`
+      );
+      await fs.writeFile(marker, "");
+    }
+
+    await replaceContainer(instanceId, userId);
+
+    logger.info(
+      `[${requestId || "system"
+      }] [${functionName}] Successfully set up persistent workspace`,
+      { instanceId, userId, userDir, initialized }
+    );
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"
+      }] [${functionName}] Failed to set up persistent workspace`,
+      {
+        instanceId,
+        userId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+export async function resetDockerToWarmSpare(
+  instanceId: string,
+  requestId: string
+): Promise<void> {
+  const functionName = "resetDockerToWarmSpare";
+  logger.debug(
+    `[${requestId || "system"}] [${functionName}] Resetting container to warm spare`,
+    { instanceId }
+  );
+
+  try {
+    // A fresh container has no user mounts
+    await replaceContainer(instanceId);
+
+    logger.info(
+      `[${requestId || "system"
+      }] [${functionName}] Successfully reset container to warm spare`,
+      { instanceId }
+    );
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"
+      }] [${functionName}] Failed to reset container to warm spare`,
+      {
+        instanceId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+export async function getDockerInstanceActivity(
+  instanceId: string,
+  requestId: string
+): Promise<InstanceActivity> {
+  const functionName = "getDockerInstanceActivity";
+
+  try {
+    const activity = parseInstanceActivity(
+      await docker(["exec", instanceId, "sh", "-c", INSTANCE_ACTIVITY_SCRIPT])
+    );
+
+    logger.debug(
+      `[${requestId || "system"}] [${functionName}] Checked container activity`,
+      { instanceId, ...activity }
+    );
+
+    return activity;
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to check container activity`,
+      {
+        instanceId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+/**
+ * Archive the user's directory to DOCKER_WORKSPACE_ROOT/.snapshots. The
+ * directory is on this host, so the container isn't involved.
+ */
+export async function snapshotDockerWorkspace(
+  instanceId: string,
+  userId: string,
+  snapshotId: string,
+  prune: string[],
+  requestId: string
+): Promise<number> {
+  const functionName = "snapshotDockerWorkspace";
+
+  try {
+    const { stdout } = await execFileAsync("bash", [
+      "-c",
+      snapshotArchiveScript(DOCKER_WORKSPACE_ROOT, userId, snapshotId, prune),
+    ]);
+    const sizeBytes = parseSnapshotSize(stdout);
+
+    logger.info(
+      `[${requestId || "system"}] [${functionName}] Workspace snapshot archived`,
+      { instanceId, userId, snapshotId, sizeBytes }
+    );
+
+    return sizeBytes;
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to archive workspace snapshot`,
+      {
+        instanceId,
+        userId,
+        snapshotId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+export async function restoreDockerWorkspace(
+  instanceId: string,
+  userId: string,
+  snapshotId: string,
+  requestId: string
+): Promise<void> {
+  const functionName = "restoreDockerWorkspace";
+
+  try {
+    await execFileAsync("bash", [
+      "-c",
+      snapshotRestoreScript(DOCKER_WORKSPACE_ROOT, userId, snapshotId),
+    ]);
+
+    logger.info(
+      `[${requestId || "system"}] [${functionName}] Workspace snapshot restored`,
+      { instanceId, userId, snapshotId }
+    );
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to restore workspace snapshot`,
+      {
+        instanceId,
+        userId,
+        snapshotId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+export async function deliverDockerHeartbeatToken(
+  instanceId: string,
+  token: string,
+  requestId: string
+): Promise<boolean> {
+  const functionName = "deliverDockerHeartbeatToken";
+
+  try {
+    const output = await docker([
+      "exec",
+      "-u",
+      "root",
+      instanceId,
+      "sh",
+      "-c",
+      heartbeatTokenScript(instanceId, token),
+    ]);
+    const delivered = heartbeatTokenWasDelivered(output);
+
+    logger.info(
+      `[${requestId || "system"}] [${functionName}] Heartbeat token ${delivered ? "delivered" : "skipped, no relay"}`,
+      { instanceId }
+    );
+    return delivered;
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to deliver heartbeat token`,
+      {
+        instanceId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+/**
+ * Stop a container and take it out of its pool's desired capacity. The
+ * container keeps its user mounts, so starting it again resumes the workspace.
+ */
+export async function hibernateDockerInstance(
+  instanceId: string,
+  requestId: string
+): Promise<void> {
+  const functionName = "hibernateDockerInstance";
+
+  try {
+    await withStateLock(async () => {
+      const container = await findContainer(instanceId);
+      if (!container) {
+        throw new Error(`Container ${instanceId} not found`);
+      }
+
+      const state = await readState();
+      if (!state.hibernatedInstances.includes(instanceId)) {
+        state.hibernatedInstances.push(instanceId);
+        state.desiredCapacity[container.pool] = Math.max(
+          0,
+          (state.desiredCapacity[container.pool] || 0) - 1
+        );
+        await writeState(state);
+      }
+      if (container.isRunning) {
+        await docker(["stop", instanceId]);
+      }
+    });
+
+    logger.info(
+      `[${requestId || "system"}] [${functionName}] Container hibernated`,
+      { instanceId }
+    );
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to hibernate container`,
+      {
+        instanceId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+export async function resumeDockerInstance(
+  instanceId: string,
+  requestId: string
+): Promise<void> {
+  const functionName = "resumeDockerInstance";
+
+  try {
+    await withStateLock(async () => {
+      const container = await findContainer(instanceId);
+      if (!container) {
+        throw new Error(`Container ${instanceId} not found`);
+      }
+
+      if (!container.isRunning) {
+        await docker(["start", instanceId]);
+      }
+      const state = await readState();
+      if (state.hibernatedInstances.includes(instanceId)) {
+        state.hibernatedInstances = state.hibernatedInstances.filter(
+          (id) => id !== instanceId
+        );
+        state.desiredCapacity[container.pool] =
+          (state.desiredCapacity[container.pool] || 0) + 1;
+        await writeState(state);
+      }
+    });
+
+    logger.info(
+      `[${requestId || "system"}] [${functionName}] Container resumed`,
+      { instanceId }
+    );
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to resume container`,
+      {
+        instanceId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+export async function terminateHibernatedDockerInstance(
+  instanceId: string,
+  requestId: string
+): Promise<void> {
+  const functionName = "terminateHibernatedDockerInstance";
+
+  try {
+    // Already outside desiredCapacity, so unlike terminateDockerInstance
+    // nothing is decremented
+    await withStateLock(async () => {
+      const container = await findContainer(instanceId);
+      if (!container) {
+        throw new Error(`Container ${instanceId} not found`);
+      }
+
+      const state = await readState();
+      await terminateContainer(state, container, requestId);
+      await writeState(state);
+    });
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to terminate hibernated container`,
+      {
+        instanceId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
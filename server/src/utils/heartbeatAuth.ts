@@ -0,0 +1,169 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { HEARTBEAT_MAX_SKEW_MS } from "../config/awsConfig";
+import computeProvider from "../providers";
+import {
+  claimHeartbeatNonce,
+  getHeartbeatToken,
+  revokeHeartbeatToken,
+  setHeartbeatToken,
+} from "./redisUtils";
+import logger from "./logger";
+
+// Where the container's heartbeat relay (code-server-docker/heartbeat-relay.js)
+// finds the token it signs with and the instance id it signs for
+export const HEARTBEAT_TOKEN_PATH = "/etc/code-server/heartbeat-token";
+export const HEARTBEAT_INSTANCE_ID_PATH = "/etc/code-server/instance-id";
+// Containers from images older than the relay have nothing to sign with
+export const HEARTBEAT_RELAY_PATH = "/usr/local/lib/heartbeat-relay.js";
+
+// Last line heartbeatTokenScript prints once the files are written
+const HEARTBEAT_TOKEN_DELIVERED = "heartbeat-token-delivered";
+
+/**
+ * Run with sh as root inside the code-server container. Replaces the token
+ * and instance id files with ones only the coder user can read, or writes
+ * nothing if the container has no heartbeat relay.
+ */
+export function heartbeatTokenScript(
+  instanceId: string,
+  token: string
+): string {
+  const write = (file: string, value: string) => `printf "%s" "${value}" > "${file}.partial"
+chown coder "${file}.partial" 2>/dev/null || true
+mv "${file}.partial" "${file}"`;
+
+  return `set -e
+if [ ! -f "${HEARTBEAT_RELAY_PATH}" ]; then
+  echo "heartbeat-relay-missing"
+  exit 0
+fi
+umask 077
+mkdir -p "$(dirname ${HEARTBEAT_TOKEN_PATH})"
+${write(HEARTBEAT_INSTANCE_ID_PATH, instanceId)}
+${write(HEARTBEAT_TOKEN_PATH, token)}
+echo "${HEARTBEAT_TOKEN_DELIVERED}"`;
+}
+
+/** Whether heartbeatTokenScript's output says the token was written */
+export function heartbeatTokenWasDelivered(output: string): boolean {
+  return output.trim().split("\n").pop()?.trim() === HEARTBEAT_TOKEN_DELIVERED;
+}
+
+/**
+ * What a heartbeat signs: hex HMAC-SHA256 of this string, keyed with the
+ * instance's token
+ */
+export function heartbeatSigningPayload(
+  instanceId: string,
+  timestamp: number,
+  nonce: string,
+  active: boolean
+): string {
+  return `${instanceId}:${timestamp}:${nonce}:${active}`;
+}
+
+/**
+ * Mint a fresh heartbeat token for an instance being handed to a user and
+ * write it into its container. Replaces any token the instance had before.
+ * A container without the relay is left without a token, which is what lets
+ * its unsigned pings through.
+ */
+export async function issueHeartbeatToken(
+  instanceId: string,
+  requestId: string
+): Promise<void> {
+  const functionName = "issueHeartbeatToken";
+  const token = randomBytes(32).toString("hex");
+
+  // Stored first so a container that picks up the file at once can ping
+  await setHeartbeatToken(instanceId, token, requestId);
+  const delivered = await computeProvider.deliverHeartbeatToken(
+    instanceId,
+    token,
+    requestId
+  );
+  if (!delivered) {
+    await revokeHeartbeatToken(instanceId, requestId);
+    logger.warn(
+      `[${requestId || "system"}] [${functionName}] Instance has no heartbeat relay, accepting its unsigned pings`,
+      { instanceId }
+    );
+    return;
+  }
+
+  logger.info(
+    `[${requestId || "system"}] [${functionName}] Issued heartbeat token`,
+    { instanceId }
+  );
+}
+
+/**
+ * Check a ping's signature against its instance's token. The timestamp has
+ * to be within HEARTBEAT_MAX_SKEW_MS and the nonce unused, so a captured
+ * ping can't be sent again. A ping without any signature fields is only let
+ * through unsigned when its instance has no token, i.e. runs an image
+ * without the relay. fallbackToken stands in for a token that has already
+ * been revoked.
+ */
+export async function verifyHeartbeat(
+  ping: {
+    instanceId: string;
+    timestamp: unknown;
+    nonce: unknown;
+    signature: unknown;
+    active: boolean;
+  },
+  requestId: string,
+  now: number = Date.now(),
+  fallbackToken?: string
+): Promise<{ signed: boolean } | { error: string }> {
+  const { instanceId, timestamp, nonce, signature, active } = ping;
+  const token =
+    (await getHeartbeatToken(instanceId, requestId)) || fallbackToken;
+
+  if (
+    timestamp === undefined &&
+    nonce === undefined &&
+    signature === undefined
+  ) {
+    return token ? { error: "Heartbeat signature required" } : { signed: false };
+  }
+
+  if (
+    typeof timestamp !== "number" ||
+    typeof nonce !== "string" ||
+    !/^[A-Za-z0-9_-]{16,128}$/.test(nonce) ||
+    typeof signature !== "string" ||
+    !/^[0-9a-f]{64}$/i.test(signature)
+  ) {
+    return { error: "Missing or malformed heartbeat signature" };
+  }
+  if (Math.abs(now - timestamp) > HEARTBEAT_MAX_SKEW_MS) {
+    return { error: "Heartbeat timestamp is outside the allowed window" };
+  }
+
+  if (!token) {
+    return { error: "No heartbeat token for this instance" };
+  }
+
+  const expected = createHmac("sha256", token)
+    .update(heartbeatSigningPayload(instanceId, timestamp, nonce, active))
+    .digest();
+  if (!timingSafeEqual(expected, Buffer.from(signature, "hex"))) {
+    return { error: "Invalid heartbeat signature" };
+  }
+
+  // Nonces only need remembering while their timestamp is still accepted
+  if (
+    !(await claimHeartbeatNonce(
+      instanceId,
+      nonce,
+      2 * HEARTBEAT_MAX_SKEW_MS,
+      requestId
+    ))
+  ) {
+    return { error: "Heartbeat was already received" };
+  }
+
+  return { signed: true };
+}
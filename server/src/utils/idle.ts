@@ -0,0 +1,218 @@
+import {
+  DEFAULT_TIER,
+  IDLE_TIMEOUT_MAX_MS,
+  IDLE_TIMEOUT_MIN_MS,
+  IDLE_TIMEOUT_MS,
+  IDLE_WARNING_MS,
+} from "../config/awsConfig";
+import {
+  IdleStatus,
+  IdleTimeoutBounds,
+  IdleTimeoutConfig,
+  IdleTimeoutSetting,
+  InstanceActivity,
+  WorkspaceInfo,
+} from "../types";
+import {
+  getIdleTimeoutConfig,
+  getOpenUsageSession,
+  getUserIdleDeadline,
+  getUserLastPing,
+  getUserWorkspace,
+  setUserIdleTimeout,
+} from "./redisUtils";
+import { getTier } from "./tiers";
+import logger from "./logger";
+
+/**
+ * Run with sh inside the code-server container. Prints "<processes>
+ * <terminals>": open ptys, and processes in a terminal's foreground that
+ * aren't just a shell waiting for input (a build, a test run, a dev server).
+ */
+export const INSTANCE_ACTIVITY_SCRIPT = `terminals=$(ls /dev/pts 2>/dev/null | grep -c '^[0-9]')
+processes=$(ps -eo tty=,stat=,comm= | awk '$1 != "?" && $2 ~ /\\+/ && $3 !~ /^-?(bash|sh|dash|zsh|fish)$/' | wc -l)
+echo "$processes $terminals"`;
+
+export function parseInstanceActivity(output: string): InstanceActivity {
+  const match = output.trim().match(/(\d+)\s+(\d+)$/);
+  if (!match) {
+    throw new Error(`Unexpected activity check output: ${output.trim()}`);
+  }
+  return { processes: Number(match[1]), terminals: Number(match[2]) };
+}
+
+/**
+ * Time left before the cleanup cycle reaps the user, from their deadline in
+ * ws:deadlines. warning is set inside the last IDLE_WARNING_MS.
+ */
+export async function getIdleStatus(
+  userId: string,
+  requestId: string,
+  now: number = Date.now()
+): Promise<IdleStatus> {
+  const [lastPing, deadline] = await Promise.all([
+    getUserLastPing(userId, requestId),
+    getUserIdleDeadline(userId, requestId),
+  ]);
+  const lastActiveAt = lastPing ?? now;
+  const reapsAt = deadline ?? lastActiveAt + IDLE_TIMEOUT_MS;
+  const remainingMs = Math.max(0, reapsAt - now);
+
+  return {
+    lastActiveAt,
+    reapsAt,
+    remainingMs,
+    warning: remainingMs <= Math.min(IDLE_WARNING_MS, reapsAt - lastActiveAt),
+  };
+}
+
+function isValidBounds(value: unknown): value is IdleTimeoutBounds {
+  const bounds = value as IdleTimeoutBounds;
+  return (
+    typeof bounds === "object" &&
+    bounds !== null &&
+    Number.isInteger(bounds.minMs) &&
+    Number.isInteger(bounds.maxMs) &&
+    bounds.minMs > 0 &&
+    bounds.minMs <= bounds.maxMs
+  );
+}
+
+/**
+ * Validate an admin-supplied idle timeout config
+ */
+export function validateIdleTimeoutConfig(input: unknown): {
+  config: IdleTimeoutConfig;
+  errors: string[];
+} {
+  const errors: string[] = [];
+  const raw = (input || {}) as Partial<IdleTimeoutConfig>;
+  const config: IdleTimeoutConfig = { tiers: {}, orgs: {} };
+  const boundsError = "must be { minMs, maxMs } with 0 < minMs <= maxMs";
+
+  if (raw.default !== undefined) {
+    if (!isValidBounds(raw.default)) {
+      errors.push(`default ${boundsError}`);
+    } else {
+      config.default = { minMs: raw.default.minMs, maxMs: raw.default.maxMs };
+    }
+  }
+
+  for (const field of ["tiers", "orgs"] as const) {
+    const entries = raw[field] ?? {};
+    if (typeof entries !== "object" || Array.isArray(entries)) {
+      errors.push(`${field} must map names to bounds`);
+      continue;
+    }
+    for (const [name, bounds] of Object.entries(entries)) {
+      if (field === "tiers" && !getTier(name)) {
+        errors.push(`tiers.${name} is not a configured tier`);
+      } else if (!isValidBounds(bounds)) {
+        errors.push(`${field}.${name} ${boundsError}`);
+      } else {
+        config[field][name] = { minMs: bounds.minMs, maxMs: bounds.maxMs };
+      }
+    }
+  }
+
+  return { config, errors };
+}
+
+function resolveBounds(
+  config: IdleTimeoutConfig,
+  tier: string,
+  orgId?: string
+): IdleTimeoutBounds {
+  if (orgId && config.orgs[orgId]) {
+    return config.orgs[orgId];
+  }
+  return (
+    config.tiers[tier] ||
+    config.default || { minMs: IDLE_TIMEOUT_MIN_MS, maxMs: IDLE_TIMEOUT_MAX_MS }
+  );
+}
+
+function clampTimeout(
+  preferredMs: number | null,
+  bounds: IdleTimeoutBounds
+): number {
+  return Math.min(
+    Math.max(preferredMs ?? IDLE_TIMEOUT_MS, bounds.minMs),
+    bounds.maxMs
+  );
+}
+
+/**
+ * The user's idle timeout: their preference, or IDLE_TIMEOUT_MS, clamped to
+ * the bounds of their org or tier. A running session keeps the org it was
+ * started under.
+ */
+export async function getIdleTimeoutSetting(
+  userId: string,
+  orgId: string | undefined,
+  requestId: string,
+  workspace?: WorkspaceInfo | null
+): Promise<IdleTimeoutSetting> {
+  const functionName = "getIdleTimeoutSetting";
+
+  const current =
+    workspace === undefined ? await getUserWorkspace(userId, requestId) : workspace;
+  const openSession = await getOpenUsageSession(userId, requestId);
+  const bounds = resolveBounds(
+    await getIdleTimeoutConfig(requestId),
+    current?.tier || DEFAULT_TIER,
+    openSession ? openSession.orgId : orgId
+  );
+
+  const preferredMs = Number(current?.preferredIdleTimeoutMs) || null;
+  const timeoutMs = clampTimeout(preferredMs, bounds);
+
+  logger.debug(
+    `[${requestId || "system"}] [${functionName}] Resolved idle timeout`,
+    { userId, preferredMs, timeoutMs, bounds }
+  );
+
+  return { timeoutMs, preferredMs, bounds };
+}
+
+/**
+ * Save the user's preferred idle timeout (null goes back to the default).
+ * Takes effect on the running workspace straight away.
+ */
+export async function setIdleTimeoutPreference(
+  userId: string,
+  orgId: string | undefined,
+  preferredMs: number | null,
+  requestId: string
+): Promise<{ setting: IdleTimeoutSetting } | { error: string }> {
+  const workspace = await getUserWorkspace(userId, requestId);
+  if (!workspace) {
+    return { error: "Start a workspace before changing its idle timeout" };
+  }
+
+  const { bounds } = await getIdleTimeoutSetting(
+    userId,
+    orgId,
+    requestId,
+    workspace
+  );
+  if (
+    preferredMs !== null &&
+    (!Number.isInteger(preferredMs) ||
+      preferredMs < bounds.minMs ||
+      preferredMs > bounds.maxMs)
+  ) {
+    return {
+      error: `timeoutMs must be between ${bounds.minMs} and ${bounds.maxMs}`,
+    };
+  }
+
+  const setting = {
+    timeoutMs: clampTimeout(preferredMs, bounds),
+    preferredMs,
+    bounds,
+  };
+  await setUserIdleTimeout(userId, preferredMs, setting.timeoutMs, requestId);
+
+  return { setting };
+}
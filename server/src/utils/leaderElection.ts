@@ -0,0 +1,129 @@
+import { LEADER_LEASE_MS, REPLICA_ID } from "../config/awsConfig";
+import { LeaderStatus } from "../types";
+import {
+  acquireLeaderLease,
+  getLeaderLease,
+  releaseLeaderLease,
+} from "./redisUtils";
+import logger from "./logger";
+
+interface LeaderCallbacks {
+  // Start the jobs only one replica may run
+  onElected: () => void;
+  // Stop them again; another replica may already be taking over
+  onDemoted: () => void;
+}
+
+// Renew well before the lease runs out so a slow round trip doesn't lose it
+const RENEW_INTERVAL_MS = Math.max(1000, Math.floor(LEADER_LEASE_MS / 3));
+
+// Term of the lease this replica holds, null while following
+let currentTerm: number | null = null;
+let leaderCallbacks: LeaderCallbacks | null = null;
+
+export function isLeader(): boolean {
+  return currentTerm !== null;
+}
+
+function stepDown(requestId: string, reason: string): void {
+  const functionName = "stepDown";
+  if (currentTerm === null) {
+    return;
+  }
+
+  logger.warn(
+    `[${requestId}] [${functionName}] No longer the leader: ${reason}`,
+    { replicaId: REPLICA_ID, term: currentTerm }
+  );
+  currentTerm = null;
+  leaderCallbacks?.onDemoted();
+}
+
+async function campaign(): Promise<void> {
+  const functionName = "campaign";
+  const requestId = `leader-${Date.now()}`;
+
+  try {
+    const term = await acquireLeaderLease(
+      REPLICA_ID,
+      LEADER_LEASE_MS,
+      requestId
+    );
+
+    if (term === null) {
+      stepDown(requestId, "another replica holds the lease");
+      return;
+    }
+    if (term === currentTerm) {
+      return;
+    }
+
+    // Our lease lapsed and another replica led in between, so restart
+    stepDown(requestId, "lease was lost and retaken");
+
+    currentTerm = term;
+    logger.info(`[${requestId}] [${functionName}] Elected leader`, {
+      replicaId: REPLICA_ID,
+      term,
+      leaseMs: LEADER_LEASE_MS,
+    });
+    leaderCallbacks?.onElected();
+  } catch (error) {
+    // Without Redis the lease can't be renewed, so stop before it expires
+    stepDown(
+      requestId,
+      `lease renewal failed (${error instanceof Error ? error.message : "Unknown error"
+      })`
+    );
+  }
+}
+
+/**
+ * Compete for the leader lease and keep renewing it. onElected runs when
+ * this replica becomes leader and onDemoted when it stops being one.
+ */
+export function startLeaderElection(
+  callbacks: LeaderCallbacks
+): NodeJS.Timeout {
+  const functionName = "startLeaderElection";
+  logger.info(`[system] [${functionName}] Starting leader election`, {
+    replicaId: REPLICA_ID,
+    leaseMs: LEADER_LEASE_MS,
+    renewIntervalMs: RENEW_INTERVAL_MS,
+  });
+
+  leaderCallbacks = callbacks;
+  campaign();
+  return setInterval(campaign, RENEW_INTERVAL_MS);
+}
+
+/**
+ * Stop campaigning and hand the lease back so another replica takes over
+ * without waiting for it to expire
+ */
+export async function stopLeaderElection(
+  interval: NodeJS.Timeout
+): Promise<void> {
+  const functionName = "stopLeaderElection";
+  const requestId = "shutdown";
+  clearInterval(interval);
+
+  const wasLeader = isLeader();
+  stepDown(requestId, "shutting down");
+  if (wasLeader) {
+    await releaseLeaderLease(REPLICA_ID, requestId);
+  }
+  logger.info(`[system] [${functionName}] Stopped leader election`, {
+    replicaId: REPLICA_ID,
+    releasedLease: wasLeader,
+  });
+}
+
+export async function getLeaderStatus(requestId: string): Promise<LeaderStatus> {
+  const lease = await getLeaderLease(requestId);
+  return {
+    replicaId: REPLICA_ID,
+    isLeader: lease.leaderId === REPLICA_ID && isLeader(),
+    ...lease,
+  };
+}
@@ -1,80 +1,670 @@
-import { MAX_MACHINES, WARM_SPARE_COUNT } from "../config/awsConfig";
+import {
+  AFFINITY_GRACE_MS,
+  ALLOCATION_LOCK_TTL_MS,
+  DEFAULT_TIER,
+  INSTANCE_BOOT_ESTIMATE_MS,
+  WORKSPACE_TIERS,
+} from "../config/awsConfig";
+import { getCapacityTarget } from "./sparePolicy";
+import { getAllInstancesInfo, requireTier } from "./tiers";
+import { getQuotaStatus } from "./quota";
+import { getIdleTimeoutSetting } from "./idle";
+import { restorePendingSnapshot, snapshotOnRelease } from "./snapshots";
+import { issueHeartbeatToken } from "./heartbeatAuth";
+import { recordAuditEvent } from "./audit";
 
 import {
-  CleanupResult,
+  AllocationJob,
+  AllocationJobOptions,
+  AllocationOptions,
+  AuditEvent,
+  CapacityTarget,
   ErrorResponse,
+  QueueStatus,
+  ReleaseResult,
   SuccessResponse,
+  TierInstanceInfo,
   WorkspaceInfo,
 } from "../types";
+import computeProvider from "../providers";
 import {
-  getASGInstancesInfo,
-  getCurrentASGCapacity,
-  getInstanceIP,
-  protectActiveInstances,
-  removeInstanceProtection,
-  safelyTerminateInstance,
-  setupUserWorkspaceSymlink,
-  tagInstance,
-  updateASGCapacity,
-} from "./awsUtils";
-import {
+  acquireAllocationLock,
   addToWarmPool,
+  clearAllocatingInstance,
+  claimAffinityHold,
+  claimHibernatedWorkspace,
+  cleanupUserData,
+  completeAllocationJob,
+  createAllocationJob,
+  dequeueAllocation,
+  endUsageSession,
+  enqueueAllocation,
+  getActiveAllocationJob,
   getActiveUserCount,
+  getAllocationJob,
+  getHeldInstanceCount,
+  getPendingRestore,
+  getQueueLength,
+  getQueuePosition,
+  getQueuedUsers,
   getUserWorkspace,
   getWarmPoolSize,
+  holdInstanceForUser,
+  isAllocationLocked,
+  markInstanceAllocating,
   popWarmSpare,
+  releaseAllocationLock,
+  revokeHeartbeatToken,
   setUserWorkspace,
+  startUsageSession,
+  updateAllocationJobStep,
 } from "./redisUtils";
 import logger from "./logger";
-import { createWorkspaceNginxConfig, generateSubdomain } from "./nginxUtils";
-import { INSTANCE_STATE } from "../lib/enum";
+import {
+  createWorkspaceNginxConfig,
+  generateSubdomain,
+  removeWorkspaceNginxConfig,
+} from "./nginxUtils";
+import { publishAllocationEvent } from "./allocationEvents";
+import {
+  ALLOCATION_JOB_STATUS,
+  ALLOCATION_STEP,
+  AUDIT_ACTION,
+  AUDIT_REASON,
+  INSTANCE_STATE,
+  USAGE_END_REASON,
+} from "../lib/enum";
 
-export async function ensureCapacity(requestId: string): Promise<void> {
+export async function ensureCapacity(
+  tier: string,
+  requestId: string
+): Promise<void> {
   const functionName = "ensureCapacity";
   logger.debug(
-    `[${requestId || "system"}] [${functionName}] Ensuring adequate capacity`
+    `[${requestId || "system"}] [${functionName}] Ensuring adequate capacity`,
+    { tier }
   );
 
   try {
-    const activeUsers = await getActiveUserCount(requestId);
-    const desired = Math.min(activeUsers + WARM_SPARE_COUNT, MAX_MACHINES);
-    const current = await getCurrentASGCapacity(requestId);
+    const { group } = requireTier(tier);
+    const activeUsers = await getActiveUserCount(requestId, tier);
+    const heldInstances = await getHeldInstanceCount(requestId, tier);
+    const queuedUsers = await getQueueLength(requestId, tier);
+    const target = await getCapacityTarget(tier, requestId);
+    const desired = Math.min(
+      activeUsers + heldInstances + queuedUsers + target.warmSpares,
+      target.maxMachines
+    );
+    const current = await computeProvider.getCurrentCapacity(group, requestId);
 
     if (desired > current) {
       logger.info(
         `[${requestId || "system"}] [${functionName}] Scaling up capacity`,
         {
+          tier,
           currentCapacity: current,
           desiredCapacity: desired,
           activeUsers,
-          warmSpareCount: WARM_SPARE_COUNT,
+          heldInstances,
+          queuedUsers,
+          warmSpareCount: target.warmSpares,
+          sparePolicy: target.policy?.name || "default",
         }
       );
-      await updateASGCapacity(desired, requestId);
+      await computeProvider.updateCapacity(group, desired, requestId);
     } else {
       logger.debug(
         `[${requestId || "system"}] [${functionName}] Capacity is adequate`,
-        { currentCapacity: current, desiredCapacity: desired, activeUsers }
+        { tier, currentCapacity: current, desiredCapacity: desired, activeUsers }
       );
     }
   } catch (error) {
     logger.error(
       `[${requestId || "system"}] [${functionName}] Failed to ensure capacity`,
-      { error: error instanceof Error ? error.message : "Unknown error" }
+      {
+        tier,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
     );
     throw error;
   }
 }
 
+// Allocations running in this process, shared with concurrent callers for the same user
+const inFlightAllocations = new Map<
+  string,
+  Promise<SuccessResponse | ErrorResponse>
+>();
+
 export async function allocateMachine(
   userId: string,
   userName: string,
+  requestId: string,
+  options: AllocationOptions = {}
+): Promise<SuccessResponse | ErrorResponse> {
+  const functionName = "allocateMachine";
+
+  const inFlight = inFlightAllocations.get(userId);
+  if (inFlight) {
+    logger.info(
+      `[${requestId || "system"
+      }] [${functionName}] Joining in-flight allocation for user`,
+      { userId }
+    );
+    if (options.instanceId) {
+      await returnInstanceToPool(
+        options.instanceId,
+        options.tier || DEFAULT_TIER,
+        requestId
+      );
+    }
+    return inFlight;
+  }
+
+  const allocation = allocateWithLock(userId, userName, requestId, options);
+  inFlightAllocations.set(userId, allocation);
+  try {
+    return await allocation;
+  } finally {
+    if (inFlightAllocations.get(userId) === allocation) {
+      inFlightAllocations.delete(userId);
+    }
+  }
+}
+
+async function allocateWithLock(
+  userId: string,
+  userName: string,
+  requestId: string,
+  options: AllocationOptions
+): Promise<SuccessResponse | ErrorResponse> {
+  const functionName = "allocateWithLock";
+
+  let fencingToken: number | null;
+  try {
+    fencingToken = await acquireAllocationLock(userId, requestId);
+  } catch (error) {
+    return {
+      success: false,
+      message: "Failed to acquire allocation lock",
+      status: "error",
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+
+  if (fencingToken === null) {
+    logger.info(
+      `[${requestId || "system"
+      }] [${functionName}] Another request is allocating for user, waiting for its result`,
+      { userId }
+    );
+    if (options.instanceId) {
+      await returnInstanceToPool(
+        options.instanceId,
+        options.tier || DEFAULT_TIER,
+        requestId
+      );
+    }
+    return waitForLockedAllocation(userId, requestId);
+  }
+
+  try {
+    return await performAllocation(
+      userId,
+      userName,
+      requestId,
+      fencingToken,
+      options
+    );
+  } finally {
+    await releaseAllocationLock(userId, fencingToken, requestId);
+  }
+}
+
+/**
+ * Wait for an allocation held by another server process, then report the
+ * workspace it produced rather than starting a second allocation.
+ */
+async function waitForLockedAllocation(
+  userId: string,
   requestId: string
+): Promise<SuccessResponse | ErrorResponse> {
+  const functionName = "waitForLockedAllocation";
+  const deadline = Date.now() + ALLOCATION_LOCK_TTL_MS;
+
+  while (
+    Date.now() < deadline &&
+    (await isAllocationLocked(userId, requestId))
+  ) {
+    await new Promise((resolve) => setTimeout(resolve, 2000));
+  }
+
+  const workspace = await getUserWorkspace(userId, requestId);
+  if (workspace?.state === INSTANCE_STATE.RUNNING && workspace.publicIp) {
+    logger.info(
+      `[${requestId || "system"
+      }] [${functionName}] Concurrent allocation finished for user`,
+      { userId, instanceId: workspace.instanceId }
+    );
+    return {
+      success: true,
+      message: "Machine already allocated",
+      status: "success",
+      data: {
+        instanceId: workspace.instanceId,
+        publicUrl: workspace.customDomain || workspace.publicIp,
+        subdomain: workspace.subdomain,
+        customDomain: workspace.customDomain,
+      },
+    };
+  }
+
+  logger.warn(
+    `[${requestId || "system"
+    }] [${functionName}] Concurrent allocation did not produce a workspace`,
+    { userId }
+  );
+  return {
+    success: false,
+    message: "A concurrent allocation for this user did not complete",
+    status: "error",
+    error: "Concurrent allocation failed",
+  };
+}
+
+/**
+ * Give the user back the instance held for them since their last release,
+ * with the same subdomain and nginx site. Returns null when there is no
+ * usable hold; a hold for another tier or on a dead instance is recycled.
+ */
+async function reuseHeldInstance(
+  userId: string,
+  requestId: string,
+  fencingToken: number,
+  options: AllocationOptions,
+  idleTimeoutMs: number
+): Promise<SuccessResponse | null> {
+  const functionName = "reuseHeldInstance";
+  const tier = options.tier || DEFAULT_TIER;
+
+  const hold = await claimAffinityHold(userId, requestId);
+  if (!hold) {
+    return null;
+  }
+
+  try {
+    if (hold.tier !== tier) {
+      throw new Error(`Held ${hold.tier} instance cannot serve a ${tier} allocation`);
+    }
+
+    await options.onStep?.(ALLOCATION_STEP.REUSE_HELD);
+    const publicIp = await computeProvider.getInstanceIP(
+      hold.instanceId,
+      requestId
+    );
+    if (!publicIp) {
+      throw new Error("Held instance has no public IP");
+    }
+    if (publicIp !== hold.publicIp) {
+      await createWorkspaceNginxConfig(hold.subdomain, publicIp);
+    }
+    // Releasing the workspace revoked the previous token
+    await issueHeartbeatToken(hold.instanceId, requestId);
+
+    const now = Date.now().toString();
+    await setUserWorkspace(
+      userId,
+      {
+        instanceId: hold.instanceId,
+        tier,
+        publicIp,
+        customDomain: hold.customDomain,
+        subdomain: hold.subdomain,
+        lastSeen: now,
+        state: INSTANCE_STATE.RUNNING,
+        ts: now,
+        idleTimeoutMs: idleTimeoutMs.toString(),
+      },
+      requestId,
+      fencingToken
+    );
+    await startUsageSession(
+      userId,
+      hold.instanceId,
+      tier,
+      requestId,
+      options.orgId
+    );
+
+    if (options.instanceId) {
+      await returnInstanceToPool(options.instanceId, tier, requestId);
+    }
+
+    logger.info(
+      `[${requestId || "system"}] [${functionName}] Reused held instance`,
+      { userId, instanceId: hold.instanceId, tier, subdomain: hold.subdomain }
+    );
+    return {
+      success: true,
+      message: "Previous machine reused",
+      status: "success",
+      data: {
+        instanceId: hold.instanceId,
+        publicUrl: hold.customDomain,
+        directIp: publicIp,
+        reused: true,
+      },
+    };
+  } catch (error) {
+    logger.warn(
+      `[${requestId || "system"
+      }] [${functionName}] Could not reuse held instance, allocating another`,
+      {
+        userId,
+        instanceId: hold.instanceId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    await revokeHeartbeatToken(hold.instanceId, requestId).catch(() => null);
+    const recycled = await recycleReleasedInstance(
+      hold.instanceId,
+      hold.tier,
+      hold.subdomain,
+      requestId
+    ).catch(() => null);
+    await recordAuditEvent(
+      {
+        action: AUDIT_ACTION.ROLLBACK,
+        reason: AUDIT_REASON.ALLOCATION_FAILED,
+        actor: "system",
+        userId,
+        instanceId: hold.instanceId,
+        tier: hold.tier,
+        details: {
+          held: true,
+          returnedToPool: recycled?.returnedToPool ?? false,
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+      },
+      requestId
+    );
+    return null;
+  }
+}
+
+/**
+ * Hand a released instance back to the pool: remove its nginx site, reset it
+ * and mark it unassigned, or terminate it when the reset fails. Returns the
+ * errors it worked around.
+ */
+async function recycleReleasedInstance(
+  instanceId: string,
+  tier: string,
+  subdomain: string | undefined,
+  requestId: string
+): Promise<{ returnedToPool: boolean; errors: string[] }> {
+  const functionName = "recycleReleasedInstance";
+  const errors: string[] = [];
+
+  if (subdomain) {
+    try {
+      await removeWorkspaceNginxConfig(subdomain);
+    } catch (e) {
+      const errorMsg = `Failed to remove nginx site ${subdomain}: ${e instanceof Error ? e.message : "Unknown error"
+        }`;
+      logger.error(
+        `[${requestId || "system"
+        }] [${functionName}] Failed to remove nginx site`,
+        { instanceId, subdomain, error: errorMsg }
+      );
+      errors.push(errorMsg);
+    }
+  }
+
+  // Only a fully reset instance goes back to the pool; otherwise terminate it
+  let canReuse = true;
+  try {
+    await computeProvider.resetToWarmSpare(instanceId, requestId);
+    await computeProvider.tagInstance(instanceId, "UNASSIGNED", requestId);
+    await computeProvider.removeInstanceProtection([instanceId], requestId);
+  } catch (e) {
+    canReuse = false;
+    const errorMsg = `Failed to reset instance ${instanceId}: ${e instanceof Error ? e.message : "Unknown error"
+      }`;
+    logger.error(
+      `[${requestId || "system"
+      }] [${functionName}] Failed to reset instance, terminating instead`,
+      { instanceId, error: errorMsg }
+    );
+    errors.push(errorMsg);
+  }
+
+  if (canReuse) {
+    await returnInstanceToPool(instanceId, tier, requestId);
+  } else {
+    await computeProvider.safelyTerminateInstance(instanceId, requestId);
+  }
+
+  return { returnedToPool: canReuse, errors };
+}
+
+/**
+ * Keep a released instance, its nginx site and its Owner tag for the user
+ * for AFFINITY_GRACE_MS so their next allocation lands on it again
+ */
+export async function holdReleasedInstance(
+  userId: string,
+  workspace: WorkspaceInfo,
+  requestId: string
+): Promise<void> {
+  await holdInstanceForUser(
+    {
+      userId,
+      instanceId: workspace.instanceId,
+      tier: workspace.tier,
+      publicIp: workspace.publicIp,
+      subdomain: workspace.subdomain,
+      customDomain: workspace.customDomain,
+      expiresAt: Date.now() + AFFINITY_GRACE_MS,
+    },
+    requestId
+  );
+}
+
+/**
+ * End a user's hold and recycle the instance. Returns the instance ID, or
+ * null when an allocation claimed the hold first.
+ */
+export async function releaseAffinityHold(
+  userId: string,
+  reason: AUDIT_REASON,
+  requestId: string
+): Promise<string | null> {
+  const functionName = "releaseAffinityHold";
+
+  const hold = await claimAffinityHold(userId, requestId);
+  if (!hold) {
+    return null;
+  }
+
+  const { returnedToPool, errors } = await recycleReleasedInstance(
+    hold.instanceId,
+    hold.tier,
+    hold.subdomain,
+    requestId
+  );
+  logger.info(
+    `[${requestId || "system"}] [${functionName}] Affinity hold ended`,
+    { userId, instanceId: hold.instanceId, returnedToPool, errors: errors.length }
+  );
+  await recordAuditEvent(
+    {
+      action: returnedToPool ? AUDIT_ACTION.RELEASE : AUDIT_ACTION.TERMINATE,
+      reason,
+      actor: reason === AUDIT_REASON.MANUAL ? userId : "system",
+      userId,
+      instanceId: hold.instanceId,
+      tier: hold.tier,
+      details: { held: true, returnedToPool },
+    },
+    requestId
+  );
+  return hold.instanceId;
+}
+
+/**
+ * Providers without a hibernation-specific terminate use the regular one
+ */
+export async function terminateHibernatedInstance(
+  instanceId: string,
+  requestId: string
+): Promise<void> {
+  const terminate =
+    computeProvider.terminateHibernatedInstance ||
+    computeProvider.safelyTerminateInstance;
+  await terminate(instanceId, requestId);
+}
+
+/**
+ * Start the user's hibernated instance again and point their subdomain at its
+ * new address. Returns null when there is nothing to resume (another tier was
+ * requested, or the retention sweep claimed it first) or resuming failed; the
+ * instance is then terminated and the caller allocates a fresh one.
+ */
+async function resumeHibernatedWorkspace(
+  userId: string,
+  workspace: WorkspaceInfo,
+  requestId: string,
+  fencingToken: number,
+  options: AllocationOptions,
+  idleTimeoutMs: number
+): Promise<SuccessResponse | null> {
+  const functionName = "resumeHibernatedWorkspace";
+  const { instanceId } = workspace;
+
+  if (!(await claimHibernatedWorkspace(userId, requestId))) {
+    return null;
+  }
+
+  const tier = options.tier || DEFAULT_TIER;
+  try {
+    if (tier !== workspace.tier || !computeProvider.resumeInstance) {
+      throw new Error(
+        `Hibernated ${workspace.tier} instance cannot serve a ${tier} allocation`
+      );
+    }
+
+    logger.info(
+      `[${requestId || "system"}] [${functionName}] Resuming hibernated instance`,
+      { userId, instanceId, tier }
+    );
+    await options.onStep?.(ALLOCATION_STEP.RESUME);
+    await computeProvider.resumeInstance(instanceId, requestId);
+
+    const publicIp = await computeProvider.getInstanceIP(instanceId, requestId);
+    if (!publicIp) {
+      throw new Error("Resumed instance has no public IP");
+    }
+    await createWorkspaceNginxConfig(workspace.subdomain, publicIp);
+    await computeProvider.protectActiveInstances([instanceId], requestId);
+    await issueHeartbeatToken(instanceId, requestId);
+
+    const now = Date.now().toString();
+    await setUserWorkspace(
+      userId,
+      {
+        instanceId,
+        tier,
+        publicIp,
+        customDomain: workspace.customDomain,
+        subdomain: workspace.subdomain,
+        lastSeen: now,
+        state: INSTANCE_STATE.RUNNING,
+        ts: now,
+        idleTimeoutMs: idleTimeoutMs.toString(),
+      },
+      requestId,
+      fencingToken
+    );
+    await startUsageSession(userId, instanceId, tier, requestId, options.orgId);
+
+    if (options.instanceId) {
+      await returnInstanceToPool(options.instanceId, tier, requestId);
+    }
+
+    logger.info(
+      `[${requestId || "system"}] [${functionName}] Resumed hibernated instance`,
+      { userId, instanceId, tier, publicIp }
+    );
+    return {
+      success: true,
+      message: "Machine resumed successfully",
+      status: "success",
+      data: {
+        instanceId,
+        publicUrl: workspace.customDomain,
+        directIp: publicIp,
+        resumed: true,
+      },
+    };
+  } catch (error) {
+    logger.warn(
+      `[${requestId || "system"
+      }] [${functionName}] Could not resume hibernated instance, allocating a new one`,
+      {
+        userId,
+        instanceId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    let terminated = true;
+    try {
+      await terminateHibernatedInstance(instanceId, requestId);
+    } catch (e) {
+      terminated = false;
+      logger.error(
+        `[${requestId || "system"
+        }] [${functionName}] Failed to terminate hibernated instance`,
+        {
+          instanceId,
+          error: e instanceof Error ? e.message : "Unknown error",
+        }
+      );
+    }
+    await cleanupUserData(userId, instanceId, requestId);
+    await recordAuditEvent(
+      {
+        action: AUDIT_ACTION.ROLLBACK,
+        reason: AUDIT_REASON.ALLOCATION_FAILED,
+        actor: "system",
+        userId,
+        instanceId,
+        tier: workspace.tier,
+        details: {
+          hibernated: true,
+          terminated,
+          error: error instanceof Error ? error.message : "Unknown error",
+        },
+      },
+      requestId
+    );
+    return null;
+  }
+}
+
+async function performAllocation(
+  userId: string,
+  userName: string,
+  requestId: string,
+  fencingToken: number,
+  options: AllocationOptions
 ): Promise<SuccessResponse | ErrorResponse> {
   const functionName = "allocateMachine";
+  const { onStep } = options;
+  const tier = options.tier || DEFAULT_TIER;
   logger.info(
     `[${requestId || "system"}] [${functionName}] Starting machine allocation`,
-    { userId }
+    { userId, tier, fencingToken }
   );
 
   let shouldRollback = false;
@@ -97,6 +687,9 @@ export async function allocateMachine(
           publicIp: existingWorkspace.publicIp,
         }
       );
+      if (options.instanceId) {
+        await returnInstanceToPool(options.instanceId, tier, requestId);
+      }
       return {
         success: true,
         message: "Machine already allocated",
@@ -110,14 +703,68 @@ export async function allocateMachine(
       };
     }
 
-    instanceId = await popWarmSpare(requestId);
+    const quota = await getQuotaStatus(userId, options.orgId, requestId);
+    if (quota?.exhausted) {
+      logger.warn(
+        `[${requestId || "system"
+        }] [${functionName}] Monthly quota exhausted, refusing allocation`,
+        { userId, orgId: options.orgId, scope: quota.scope, usedMs: quota.usedMs }
+      );
+      if (options.instanceId) {
+        await returnInstanceToPool(options.instanceId, tier, requestId);
+      }
+      return {
+        success: false,
+        message: `Monthly workspace quota exhausted. It resets on ${new Date(
+          quota.resetsAt
+        ).toISOString()}.`,
+        status: "error",
+        error: "Quota exhausted",
+      };
+    }
+
+    // Resolved on every allocation so changed admin bounds apply
+    const { timeoutMs: idleTimeoutMs } = await getIdleTimeoutSetting(
+      userId,
+      options.orgId,
+      requestId,
+      existingWorkspace
+    );
+
+    if (existingWorkspace?.state === INSTANCE_STATE.HIBERNATED) {
+      const resumed = await resumeHibernatedWorkspace(
+        userId,
+        existingWorkspace,
+        requestId,
+        fencingToken,
+        options,
+        idleTimeoutMs
+      );
+      if (resumed) {
+        return resumed;
+      }
+    }
+
+    const reused = await reuseHeldInstance(
+      userId,
+      requestId,
+      fencingToken,
+      options,
+      idleTimeoutMs
+    );
+    if (reused) {
+      return reused;
+    }
+
+    await onStep?.(ALLOCATION_STEP.POP_SPARE);
+    instanceId = options.instanceId || (await popWarmSpare(tier, requestId));
     if (!instanceId) {
       logger.warn(
         `[${requestId || "system"
         }] [${functionName}] No warm spare available, ensuring capacity`,
-        { userId }
+        { userId, tier }
       );
-      await ensureCapacity(requestId);
+      await ensureCapacity(tier, requestId);
       return {
         success: false,
         message: "No available machines. Please try again in a moment.",
@@ -126,7 +773,8 @@ export async function allocateMachine(
       };
     }
 
-    const publicIp = await getInstanceIP(instanceId, requestId);
+    await onStep?.(ALLOCATION_STEP.RESOLVE_IP);
+    const publicIp = await computeProvider.getInstanceIP(instanceId, requestId);
     if (!publicIp) {
       logger.error(
         `[${requestId || "system"
@@ -138,34 +786,59 @@ export async function allocateMachine(
 
     shouldRollback = true;
 
-    await setupUserWorkspaceSymlink(instanceId, userId);
-
+    // Before setup, so code-server starts on the restored files
+    const restoreSnapshotId = await getPendingRestore(userId, requestId);
+    if (restoreSnapshotId) {
+      await onStep?.(ALLOCATION_STEP.RESTORE_SNAPSHOT);
+      await restorePendingSnapshot(
+        userId,
+        instanceId,
+        restoreSnapshotId,
+        requestId
+      );
+    }
 
+    await onStep?.(ALLOCATION_STEP.SSM_SETUP);
+    await computeProvider.setupUserWorkspace(instanceId, userId, requestId);
+    // After setup, which replaces the container
+    await onStep?.(ALLOCATION_STEP.HEARTBEAT_TOKEN);
+    await issueHeartbeatToken(instanceId, requestId);
 
-    const subdomain = generateSubdomain(userName, instanceId);
+    const subdomain =
+      options.subdomain || generateSubdomain(userName, instanceId);
     const httpsUrl = `https://${subdomain}.workspaces.codeclause.tech`;
+    await onStep?.(ALLOCATION_STEP.NGINX);
     await createWorkspaceNginxConfig(subdomain, publicIp);
-    await tagInstance(instanceId, userId, requestId);
-    await protectActiveInstances([instanceId], requestId);
+    await onStep?.(ALLOCATION_STEP.TAGGING);
+    await computeProvider.tagInstance(instanceId, userId, requestId, subdomain);
+    await onStep?.(ALLOCATION_STEP.PROTECTION);
+    await computeProvider.protectActiveInstances([instanceId], requestId);
 
     const workspace: WorkspaceInfo = {
       instanceId,
+      tier,
       publicIp,
       lastSeen: now.toString(),
       customDomain: httpsUrl,
       subdomain: subdomain,
       state: INSTANCE_STATE.RUNNING,
       ts: now.toString(),
+      idleTimeoutMs: idleTimeoutMs.toString(),
     };
 
-    await setUserWorkspace(userId, workspace, requestId);
-
-    // await ensureCapacity(requestId);
+    await setUserWorkspace(userId, workspace, requestId, fencingToken);
+    await startUsageSession(
+      userId,
+      instanceId,
+      tier,
+      requestId,
+      options.orgId
+    );
 
     logger.info(
       `[${requestId || "system"
       }] [${functionName}] Successfully allocated machine`,
-      { userId, instanceId, publicIp }
+      { userId, instanceId, tier, publicIp }
     );
     return {
       success: true,
@@ -189,7 +862,7 @@ export async function allocateMachine(
         { userId, instanceId }
       );
       try {
-        await removeInstanceProtection([instanceId], requestId);
+        await computeProvider.removeInstanceProtection([instanceId], requestId);
       } catch (e) {
         logger.error(
           `[${requestId || "system"
@@ -201,7 +874,7 @@ export async function allocateMachine(
         );
       }
       try {
-        await tagInstance(instanceId, "UNASSIGNED", requestId);
+        await computeProvider.tagInstance(instanceId, "UNASSIGNED", requestId);
       } catch (e) {
         logger.error(
           `[${requestId || "system"
@@ -213,7 +886,19 @@ export async function allocateMachine(
         );
       }
       try {
-        await addToWarmPool(instanceId, requestId);
+        await revokeHeartbeatToken(instanceId, requestId);
+      } catch (e) {
+        logger.error(
+          `[${requestId || "system"
+          }] [${functionName}] Failed to revoke heartbeat token during rollback`,
+          {
+            instanceId,
+            error: e instanceof Error ? e.message : "Unknown error",
+          }
+        );
+      }
+      try {
+        await addToWarmPool(instanceId, tier, requestId);
       } catch (e) {
         logger.error(
           `[${requestId || "system"
@@ -224,6 +909,25 @@ export async function allocateMachine(
           }
         );
       }
+      await recordAuditEvent(
+        {
+          action: AUDIT_ACTION.ROLLBACK,
+          reason: AUDIT_REASON.ALLOCATION_FAILED,
+          actor: "system",
+          userId,
+          instanceId,
+          tier,
+          details: {
+            error: error instanceof Error ? error.message : "Unknown error",
+          },
+        },
+        requestId
+      );
+    }
+    // Returning the instance to the pool clears this too, but an allocation
+    // that failed before setup started leaves it to the reconciler
+    if (instanceId) {
+      await clearAllocatingInstance(instanceId, requestId).catch(() => null);
     }
 
     return {
@@ -236,12 +940,513 @@ export async function allocateMachine(
   }
 }
 
+/**
+ * Create an allocation job and run it in the background. A user with a job
+ * still in flight gets that job back instead of a new one.
+ */
+export async function startAllocationJob(
+  userId: string,
+  userName: string,
+  requestId: string,
+  options: Partial<AllocationJobOptions> = {}
+): Promise<AllocationJob> {
+  const functionName = "startAllocationJob";
+  const tier = options.tier || DEFAULT_TIER;
+  logger.info(
+    `[${requestId || "system"}] [${functionName}] Starting allocation job`,
+    { userId, tier, subdomain: options.subdomain }
+  );
+
+  const activeJob = await getActiveAllocationJob(userId, requestId);
+  if (activeJob) {
+    logger.info(
+      `[${requestId || "system"
+      }] [${functionName}] Reusing in-flight allocation job`,
+      { userId, jobId: activeJob.jobId, step: activeJob.step }
+    );
+    return activeJob;
+  }
+
+  const job = await createAllocationJob(
+    userId,
+    userName,
+    { ...options, tier },
+    requestId
+  );
+  await publishAllocationEvent(userId, { type: "job", job }, requestId);
+  setImmediate(() => runAllocationJob(job, requestId));
+  return job;
+}
+
+async function runAllocationJob(
+  job: AllocationJob,
+  requestId: string,
+  instanceId?: string
+): Promise<void> {
+  const functionName = "runAllocationJob";
+  logger.debug(
+    `[${requestId || "system"}] [${functionName}] Running allocation job`,
+    { jobId: job.jobId, userId: job.userId, instanceId }
+  );
+
+  let result: SuccessResponse | ErrorResponse;
+  try {
+    result = await allocateMachine(job.userId, job.userName, requestId, {
+      instanceId,
+      tier: job.tier,
+      orgId: job.orgId,
+      subdomain: job.subdomain,
+      onStep: async (step) => {
+        const updatedJob = await updateAllocationJobStep(
+          job.jobId,
+          step,
+          requestId
+        );
+        if (updatedJob) {
+          await publishAllocationEvent(
+            job.userId,
+            { type: "job", job: updatedJob },
+            requestId
+          );
+        }
+      },
+    });
+  } catch (error) {
+    result = {
+      success: false,
+      message:
+        error instanceof Error ? error.message : "Unknown allocation error",
+      status: "error",
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+
+  // Without a warm spare the job waits in the queue for the next ready instance
+  if (
+    !result.success &&
+    result.status === "processing" &&
+    (await queueAllocationJob(job, requestId))
+  ) {
+    return;
+  }
+
+  const completedJob = await completeAllocationJob(
+    job.jobId,
+    result,
+    requestId
+  );
+  await publishAllocationEvent(
+    job.userId,
+    { type: "complete", job: completedJob || { ...job, result } },
+    requestId
+  );
+}
+
+async function queueAllocationJob(
+  job: AllocationJob,
+  requestId: string
+): Promise<boolean> {
+  const functionName = "queueAllocationJob";
+
+  try {
+    await enqueueAllocation(job.userId, job.jobId, job.tier, requestId);
+    const queuedJob = await updateAllocationJobStep(
+      job.jobId,
+      ALLOCATION_STEP.QUEUED,
+      requestId,
+      ALLOCATION_JOB_STATUS.QUEUED
+    );
+    if (queuedJob) {
+      await publishAllocationEvent(
+        job.userId,
+        { type: "job", job: queuedJob },
+        requestId
+      );
+    }
+    await publishQueuePositions(job.tier, requestId);
+
+    // Scale for the queue, and catch an instance that reached the pool while we were enqueuing
+    await ensureCapacity(job.tier, requestId);
+    await dispatchQueuedAllocations(requestId);
+
+    logger.info(
+      `[${requestId || "system"
+      }] [${functionName}] Allocation job queued for next instance`,
+      { userId: job.userId, jobId: job.jobId, tier: job.tier }
+    );
+    return true;
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"
+      }] [${functionName}] Failed to queue allocation job`,
+      {
+        userId: job.userId,
+        jobId: job.jobId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    return false;
+  }
+}
+
+/**
+ * Hand an instance to the head of its tier's allocation queue. Returns false
+ * when nobody is waiting, so the caller can add the instance to the warm pool.
+ */
+async function handOffToQueuedUser(
+  instanceId: string,
+  tier: string,
+  requestId: string
+): Promise<boolean> {
+  const functionName = "handOffToQueuedUser";
+
+  let entry = await dequeueAllocation(tier, requestId);
+  while (entry) {
+    const job = entry.jobId
+      ? await getAllocationJob(entry.jobId, requestId)
+      : null;
+
+    if (job && job.status === ALLOCATION_JOB_STATUS.QUEUED) {
+      logger.info(
+        `[${requestId || "system"
+        }] [${functionName}] Handing instance to queued user`,
+        { instanceId, tier, userId: job.userId, jobId: job.jobId }
+      );
+      await markInstanceAllocating(instanceId, requestId);
+      setImmediate(() => runAllocationJob(job, requestId, instanceId));
+      await publishQueuePositions(tier, requestId);
+      return true;
+    }
+
+    // Stale entry whose job expired or finished elsewhere
+    logger.debug(
+      `[${requestId || "system"}] [${functionName}] Skipping stale queue entry`,
+      { userId: entry.userId, jobId: entry.jobId }
+    );
+    entry = await dequeueAllocation(tier, requestId);
+  }
+
+  return false;
+}
+
+/**
+ * Return a ready, unassigned instance of a tier: the longest-waiting queued
+ * user of that tier gets it first, otherwise it goes to the tier's warm pool.
+ */
+export async function returnInstanceToPool(
+  instanceId: string,
+  tier: string,
+  requestId: string
+): Promise<void> {
+  if (await handOffToQueuedUser(instanceId, tier, requestId)) {
+    return;
+  }
+  await addToWarmPool(instanceId, tier, requestId);
+}
+
+/**
+ * Pair queued users with instances already sitting in their tier's warm pool
+ */
+export async function dispatchQueuedAllocations(
+  requestId: string
+): Promise<void> {
+  for (const { name: tier } of WORKSPACE_TIERS) {
+    while ((await getQueueLength(requestId, tier)) > 0) {
+      const instanceId = await popWarmSpare(tier, requestId);
+      if (!instanceId) {
+        break;
+      }
+      if (!(await handOffToQueuedUser(instanceId, tier, requestId))) {
+        await addToWarmPool(instanceId, tier, requestId);
+        break;
+      }
+    }
+  }
+}
+
+/**
+ * Instances boot in parallel up to the machine ceiling, so the wait grows
+ * with each batch of queued users that cannot be launched at once.
+ */
+function estimateQueueWait(
+  position: number,
+  activeUsers: number,
+  maxMachines: number
+): number {
+  const launchSlots = Math.max(1, maxMachines - activeUsers);
+  return Math.ceil(position / launchSlots) * INSTANCE_BOOT_ESTIMATE_MS;
+}
+
+export async function getQueueStatus(
+  userId: string,
+  requestId: string
+): Promise<QueueStatus | null> {
+  const entry = await getQueuePosition(userId, requestId);
+  if (entry === null) {
+    return null;
+  }
+
+  const { tier, position } = entry;
+  const activeUsers = await getActiveUserCount(requestId, tier);
+  const { maxMachines } = await getCapacityTarget(tier, requestId);
+  return {
+    tier,
+    position,
+    estimatedWaitMs: estimateQueueWait(position, activeUsers, maxMachines),
+  };
+}
+
+async function publishQueuePositions(
+  tier: string,
+  requestId: string
+): Promise<void> {
+  const queuedUsers = await getQueuedUsers(tier, requestId);
+  if (queuedUsers.length === 0) {
+    return;
+  }
+
+  const activeUsers = await getActiveUserCount(requestId, tier);
+  const { maxMachines } = await getCapacityTarget(tier, requestId);
+  await Promise.all(
+    queuedUsers.map((userId, index) =>
+      publishAllocationEvent(
+        userId,
+        {
+          type: "queue",
+          tier,
+          position: index + 1,
+          estimatedWaitMs: estimateQueueWait(
+            index + 1,
+            activeUsers,
+            maxMachines
+          ),
+        },
+        requestId
+      )
+    )
+  );
+}
+
+/**
+ * Release under the user's allocation lock, so a release can't interleave
+ * with an allocation (or another release) for the same user. While one is
+ * in flight the release is refused and the caller can try again.
+ */
+export async function releaseMachine(
+  userId: string,
+  requestId: string,
+  reason: USAGE_END_REASON = USAGE_END_REASON.RELEASED
+): Promise<SuccessResponse | ErrorResponse> {
+  const functionName = "releaseMachine";
+
+  let fencingToken: number | null;
+  try {
+    fencingToken = await acquireAllocationLock(userId, requestId);
+  } catch (error) {
+    return {
+      success: false,
+      message: "Failed to acquire allocation lock",
+      status: "error",
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+
+  if (fencingToken === null) {
+    logger.info(
+      `[${requestId || "system"
+      }] [${functionName}] Another request is allocating or releasing for user`,
+      { userId, reason }
+    );
+    return {
+      success: false,
+      message: "Your workspace is still being set up. Please try again in a moment.",
+      status: "processing",
+      error: "Allocation in progress",
+    };
+  }
+
+  try {
+    return await performRelease(userId, requestId, reason);
+  } finally {
+    await releaseAllocationLock(userId, fencingToken, requestId);
+  }
+}
+
+async function performRelease(
+  userId: string,
+  requestId: string,
+  reason: USAGE_END_REASON
+): Promise<SuccessResponse | ErrorResponse> {
+  const functionName = "performRelease";
+  logger.info(
+    `[${requestId || "system"}] [${functionName}] Starting machine release`,
+    { userId, reason }
+  );
+
+  const result: ReleaseResult = {
+    releasedInstances: [],
+    cleanedUsers: [],
+    errors: [],
+  };
+
+  // Quota enforcement is the only release the user didn't ask for
+  const quotaRelease = reason === USAGE_END_REASON.QUOTA_EXHAUSTED;
+  const audit = (
+    action: AUDIT_ACTION,
+    workspace: WorkspaceInfo,
+    details: AuditEvent["details"]
+  ) =>
+    recordAuditEvent(
+      {
+        action,
+        reason: quotaRelease ? AUDIT_REASON.QUOTA : AUDIT_REASON.MANUAL,
+        actor: quotaRelease ? "system" : userId,
+        userId,
+        instanceId: workspace.instanceId,
+        tier: workspace.tier,
+        details,
+      },
+      requestId
+    );
+
+  try {
+    const workspace = await getUserWorkspace(userId, requestId);
+
+    // Releasing a hibernated workspace gives up the stopped instance
+    if (
+      workspace?.state === INSTANCE_STATE.HIBERNATED &&
+      (await claimHibernatedWorkspace(userId, requestId))
+    ) {
+      await terminateHibernatedInstance(workspace.instanceId, requestId);
+      await cleanupUserData(userId, workspace.instanceId, requestId);
+      await audit(AUDIT_ACTION.TERMINATE, workspace, { hibernated: true });
+      result.releasedInstances.push(workspace.instanceId);
+      result.cleanedUsers.push(userId);
+
+      logger.info(
+        `[${requestId || "system"
+        }] [${functionName}] Terminated hibernated instance`,
+        { userId, instanceId: workspace.instanceId }
+      );
+      return {
+        success: true,
+        message: "Hibernated machine released",
+        status: "success",
+        data: { ...result },
+      };
+    }
+
+    if (
+      !workspace ||
+      workspace.state !== INSTANCE_STATE.RUNNING ||
+      !workspace.instanceId
+    ) {
+      logger.info(
+        `[${requestId || "system"
+        }] [${functionName}] No running workspace to release`,
+        { userId, state: workspace?.state }
+      );
+      return {
+        success: true,
+        message: "No active workspace to release",
+        status: "success",
+        data: { ...result },
+      };
+    }
+
+    const instanceId = workspace.instanceId;
+    await snapshotOnRelease(userId, instanceId, requestId);
+
+    // Drop the user's Redis state first so a repeated call becomes a no-op
+    await cleanupUserData(userId, instanceId, requestId);
+    await endUsageSession(userId, reason, requestId);
+    result.cleanedUsers.push(userId);
+
+    // A plain release keeps the instance for the user for a while
+    if (reason === USAGE_END_REASON.RELEASED && AFFINITY_GRACE_MS > 0) {
+      await holdReleasedInstance(userId, workspace, requestId);
+      await audit(AUDIT_ACTION.RELEASE, workspace, { held: true });
+      result.releasedInstances.push(instanceId);
+
+      logger.info(
+        `[${requestId || "system"
+        }] [${functionName}] Released machine, holding it for the user`,
+        { userId, instanceId, graceMs: AFFINITY_GRACE_MS }
+      );
+      return {
+        success: true,
+        message: "Machine released successfully",
+        status: "success",
+        data: { ...result },
+      };
+    }
+
+    const { returnedToPool, errors } = await recycleReleasedInstance(
+      instanceId,
+      workspace.tier,
+      workspace.subdomain,
+      requestId
+    );
+    result.errors.push(...errors);
+    result.releasedInstances.push(instanceId);
+    await audit(
+      returnedToPool ? AUDIT_ACTION.RELEASE : AUDIT_ACTION.TERMINATE,
+      workspace,
+      { returnedToPool }
+    );
+
+    logger.info(
+      `[${requestId || "system"
+      }] [${functionName}] Successfully released machine`,
+      {
+        userId,
+        instanceId,
+        returnedToPool,
+        errors: result.errors.length,
+      }
+    );
+    return {
+      success: true,
+      message: "Machine released successfully",
+      status: "success",
+      data: { ...result },
+    };
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Machine release failed`,
+      {
+        userId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    return {
+      success: false,
+      message:
+        error instanceof Error ? error.message : "Unknown release error",
+      status: "error",
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+interface TierStatus {
+  name: string;
+  group: string;
+  activeUsers: number;
+  warmSpares: number;
+  heldInstances: number;
+  queuedUsers: number;
+  capacity: number;
+  sparePolicy: CapacityTarget;
+}
+
 export async function getSystemStatus(requestId: string): Promise<{
   activeUsers: number;
   warmSpares: number;
   totalInstances: number;
   asgCapacity: number;
-  instanceDetails: any[];
+  tiers: TierStatus[];
+  instanceDetails: TierInstanceInfo[];
 }> {
   const functionName = "getSystemStatus";
   logger.debug(
@@ -249,19 +1454,49 @@ export async function getSystemStatus(requestId: string): Promise<{
   );
 
   try {
-    const [activeUsers, warmSpares, asgCapacity, instancesInfo] =
-      await Promise.all([
-        getActiveUserCount(requestId),
-        getWarmPoolSize(requestId),
-        getCurrentASGCapacity(requestId),
-        getASGInstancesInfo(requestId),
-      ]);
+    const [activeUsers, instancesInfo, tiers] = await Promise.all([
+      getActiveUserCount(requestId),
+      getAllInstancesInfo(requestId),
+      Promise.all(
+        WORKSPACE_TIERS.map(async (tier): Promise<TierStatus> => {
+          const [
+            activeUsers,
+            warmSpares,
+            heldInstances,
+            queuedUsers,
+            capacity,
+            sparePolicy,
+          ] = await Promise.all([
+            getActiveUserCount(requestId, tier.name),
+            getWarmPoolSize(requestId, tier.name),
+            getHeldInstanceCount(requestId, tier.name),
+            getQueueLength(requestId, tier.name),
+            computeProvider.getCurrentCapacity(tier.group, requestId),
+            getCapacityTarget(tier.name, requestId),
+          ]);
+          return {
+            name: tier.name,
+            group: tier.group,
+            activeUsers,
+            warmSpares,
+            heldInstances,
+            queuedUsers,
+            capacity,
+            sparePolicy,
+          };
+        })
+      ),
+    ]);
 
+    // Totals across tiers keep the original dashboard fields meaningful
+    const warmSpares = tiers.reduce((sum, t) => sum + t.warmSpares, 0);
+    const asgCapacity = tiers.reduce((sum, t) => sum + t.capacity, 0);
     const status = {
       activeUsers,
       warmSpares,
       totalInstances: instancesInfo.length,
       asgCapacity,
+      tiers,
       instanceDetails: instancesInfo,
     };
 
@@ -0,0 +1,34 @@
+import { DEFAULT_TIER } from "../config/awsConfig";
+import { backfillTierUsers, migrateSinglePoolKeys } from "./redisUtils";
+import logger from "./logger";
+
+/**
+ * Bring Redis state from before tiers into the tier keys: the old warm pool
+ * and allocation queue move to DEFAULT_TIER, and running workspaces are
+ * counted in their tier's active users. Every step is idempotent, so the
+ * leader runs it each time it is elected.
+ */
+export async function migrateSinglePoolState(
+  requestId: string
+): Promise<{ spares: number; queued: number; activeUsers: number }> {
+  const functionName = "migrateSinglePoolState";
+
+  const { spares, queued } = await migrateSinglePoolKeys(
+    DEFAULT_TIER,
+    requestId
+  );
+  const activeUsers = await backfillTierUsers(requestId);
+
+  if (spares > 0 || queued > 0) {
+    logger.info(
+      `[${requestId || "system"}] [${functionName}] Moved single-pool state into the ${DEFAULT_TIER} tier`,
+      { spares, queued }
+    );
+  }
+  logger.debug(
+    `[${requestId || "system"}] [${functionName}] Tier users backfilled`,
+    { activeUsers }
+  );
+
+  return { spares, queued, activeUsers };
+}
@@ -64,3 +64,23 @@ export async function createWorkspaceNginxConfig(
     `✅ Created workspace config for ${subdomain}.workspaces.codeclause.tech`
   );
 }
+
+export async function removeWorkspaceNginxConfig(
+  subdomain: string
+): Promise<void> {
+  const fs = require("fs").promises;
+  const { exec } = require("child_process");
+  const { promisify } = require("util");
+  const execAsync = promisify(exec);
+
+  // Disable and delete site; missing files mean it was already removed
+  await fs.rm(`/etc/nginx/sites-enabled/${subdomain}`, { force: true });
+  await fs.rm(`/etc/nginx/sites-available/${subdomain}`, { force: true });
+
+  // Reload nginx
+  await execAsync("sudo nginx -t && sudo systemctl reload nginx");
+
+  console.log(
+    `🗑️ Removed workspace config for ${subdomain}.workspaces.codeclause.tech`
+  );
+}
@@ -0,0 +1,130 @@
+import {
+  QUOTA_DEFAULT_MONTHLY_HOURS,
+  QUOTA_WARNING_RATIO,
+} from "../config/awsConfig";
+import { QUOTA_SCOPE } from "../lib/enum";
+import { QuotaConfig, QuotaStatus } from "../types";
+import { getQuotaConfig, getUsageSessions } from "./redisUtils";
+import logger from "./logger";
+
+const HOUR_MS = 60 * 60 * 1000;
+// Sessions that started last month can still be running into this one
+const SESSION_LOOKBACK_MS = 31 * 24 * HOUR_MS;
+
+function isValidHours(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+/**
+ * Validate an admin-supplied quota config
+ */
+export function validateQuotaConfig(input: unknown): {
+  config: QuotaConfig;
+  errors: string[];
+} {
+  const errors: string[] = [];
+  const raw = (input || {}) as Partial<QuotaConfig>;
+  const config: QuotaConfig = { users: {}, orgs: {} };
+
+  if (raw.defaultMonthlyHours !== undefined) {
+    if (
+      raw.defaultMonthlyHours !== null &&
+      !isValidHours(raw.defaultMonthlyHours)
+    ) {
+      errors.push("defaultMonthlyHours must be a non-negative number or null");
+    } else {
+      config.defaultMonthlyHours = raw.defaultMonthlyHours;
+    }
+  }
+
+  for (const field of ["users", "orgs"] as const) {
+    const entries = raw[field] ?? {};
+    if (typeof entries !== "object" || Array.isArray(entries)) {
+      errors.push(`${field} must map IDs to monthly hours`);
+      continue;
+    }
+    for (const [id, hours] of Object.entries(entries)) {
+      if (!isValidHours(hours)) {
+        errors.push(`${field}.${id} must be a non-negative number of hours`);
+      } else {
+        config[field][id] = hours;
+      }
+    }
+  }
+
+  return { config, errors };
+}
+
+function resolveLimit(
+  config: QuotaConfig,
+  userId: string,
+  orgId?: string
+): { scope: QUOTA_SCOPE; hours: number } | null {
+  if (config.users[userId] !== undefined) {
+    return { scope: QUOTA_SCOPE.USER, hours: config.users[userId] };
+  }
+  if (orgId && config.orgs[orgId] !== undefined) {
+    return { scope: QUOTA_SCOPE.ORG, hours: config.orgs[orgId] };
+  }
+
+  const hours =
+    config.defaultMonthlyHours !== undefined
+      ? config.defaultMonthlyHours
+      : QUOTA_DEFAULT_MONTHLY_HOURS;
+  return hours === null ? null : { scope: QUOTA_SCOPE.DEFAULT, hours };
+}
+
+/**
+ * Workspace time used this calendar month (UTC) against the user's quota.
+ * An org quota is shared by every session started under that org. Returns
+ * null when the user has no limit.
+ */
+export async function getQuotaStatus(
+  userId: string,
+  orgId: string | undefined,
+  requestId: string,
+  now: number = Date.now()
+): Promise<QuotaStatus | null> {
+  const functionName = "getQuotaStatus";
+
+  const limit = resolveLimit(await getQuotaConfig(requestId), userId, orgId);
+  if (!limit) {
+    return null;
+  }
+
+  const date = new Date(now);
+  const monthStart = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+  const resetsAt = Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+
+  const sessions = await getUsageSessions(
+    monthStart - SESSION_LOOKBACK_MS,
+    now,
+    requestId,
+    limit.scope === QUOTA_SCOPE.ORG ? { orgId } : { userId }
+  );
+  const usedMs = sessions.reduce((sum, session) => {
+    const start = Math.max(Number(session.startedAt), monthStart);
+    const end = Math.min(Number(session.endedAt || now), now);
+    return sum + Math.max(0, end - start);
+  }, 0);
+
+  const limitMs = limit.hours * HOUR_MS;
+  const remainingMs = Math.max(0, limitMs - usedMs);
+  const status: QuotaStatus = {
+    scope: limit.scope,
+    ...(limit.scope === QUOTA_SCOPE.ORG && { orgId }),
+    limitMs,
+    usedMs,
+    remainingMs,
+    warning: usedMs >= limitMs * QUOTA_WARNING_RATIO,
+    exhausted: remainingMs === 0,
+    resetsAt,
+  };
+
+  logger.debug(
+    `[${requestId || "system"}] [${functionName}] Resolved quota status`,
+    { userId, ...status }
+  );
+
+  return status;
+}
@@ -0,0 +1,406 @@
+import computeProvider from "../providers";
+import {
+  RECONCILE_DRY_RUN,
+  RECONCILE_INTERVAL_MS,
+} from "../config/awsConfig";
+import {
+  INSTANCE_STATE,
+  RECONCILE_DRIFT,
+  USAGE_END_REASON,
+} from "../lib/enum";
+import {
+  ReconcileDrift,
+  ReconcileResult,
+  ScheduledJob,
+  TierInstanceInfo,
+} from "../types";
+import {
+  cleanupUserData,
+  claimAffinityHold,
+  claimHibernatedWorkspace,
+  endUsageSession,
+  getAffinityHolds,
+  getAllocatingInstances,
+  getHibernatedUsers,
+  getInstanceMappings,
+  getPingedUsers,
+  getUserWorkspace,
+  getWarmPoolMembers,
+  removeFromWarmPool,
+  removeInstanceMapping,
+  removeUserPing,
+} from "./redisUtils";
+import { removeWorkspaceNginxConfig } from "./nginxUtils";
+import { returnInstanceToPool } from "./machineManager";
+import { restoreWorkspaceFromInstance } from "./stateRecovery";
+import { getAllInstancesInfo } from "./tiers";
+import logger from "./logger";
+
+// Drift that an allocation or hand-off in progress also produces for a short
+// while is only repaired once it has been seen on two consecutive runs
+const CONFIRMED_DRIFT = new Set([
+  RECONCILE_DRIFT.ORPHANED_INSTANCE,
+  RECONCILE_DRIFT.UNTRACKED_SPARE,
+]);
+
+let suspectedDrift = new Set<string>();
+
+/**
+ * Put an instance that no user owns back into service: reset it, mark it
+ * unassigned and return it to the pool, or terminate it if that fails.
+ */
+async function recycleInstance(
+  instanceId: string,
+  tier: string,
+  requestId: string
+): Promise<void> {
+  try {
+    await computeProvider.resetToWarmSpare(instanceId, requestId);
+    await computeProvider.tagInstance(instanceId, "UNASSIGNED", requestId);
+    await computeProvider.removeInstanceProtection([instanceId], requestId);
+    await returnInstanceToPool(instanceId, tier, requestId);
+  } catch {
+    await computeProvider.removeInstanceProtection([instanceId], requestId);
+    await computeProvider.safelyTerminateInstance(instanceId, requestId);
+  }
+}
+
+/**
+ * Compare provider instances and Owner tags with the tier pools, inst:<id>,
+ * ws:<userId> and ws:pings, and repair every drift found. In dry-run mode
+ * drift is only reported.
+ */
+export async function reconcileState(
+  requestId: string,
+  dryRun: boolean = RECONCILE_DRY_RUN
+): Promise<ReconcileResult> {
+  const functionName = "reconcileState";
+  logger.debug(
+    `[${requestId || "system"}] [${functionName}] Starting state reconciliation`,
+    { dryRun, provider: computeProvider.name }
+  );
+
+  const result: ReconcileResult = { dryRun, drifts: [], errors: [] };
+  const seenDrift = new Set<string>();
+
+  const [
+    instances,
+    pool,
+    mappings,
+    pingedUsers,
+    hibernatedUsers,
+    holds,
+    allocating,
+  ] = await Promise.all([
+    getAllInstancesInfo(requestId),
+    getWarmPoolMembers(requestId),
+    getInstanceMappings(requestId),
+    getPingedUsers(requestId),
+    getHibernatedUsers(requestId),
+    getAffinityHolds(requestId),
+    getAllocatingInstances(requestId),
+  ]);
+
+  const instancesById = new Map<string, TierInstanceInfo>(
+    instances.map((instance) => [instance.instanceId, instance])
+  );
+  const poolSet = new Set(pool);
+
+  const record = async (
+    drift: Omit<ReconcileDrift, "repaired">,
+    repair: () => Promise<void>
+  ): Promise<void> => {
+    const key = `${drift.kind}:${drift.instanceId || drift.userId}`;
+    seenDrift.add(key);
+
+    const confirmed =
+      !CONFIRMED_DRIFT.has(drift.kind) || suspectedDrift.has(key);
+    const entry: ReconcileDrift = { ...drift, repaired: false };
+    result.drifts.push(entry);
+
+    if (dryRun || !confirmed) {
+      logger.warn(
+        `[${requestId || "system"}] [${functionName}] Drift detected: ${drift.detail}`,
+        { ...drift, dryRun, awaitingConfirmation: !confirmed }
+      );
+      return;
+    }
+
+    try {
+      await repair();
+      entry.repaired = true;
+      logger.info(
+        `[${requestId || "system"}] [${functionName}] Drift repaired: ${drift.detail}`,
+        drift
+      );
+    } catch (error) {
+      const message = `${drift.kind} ${drift.instanceId || drift.userId}: ${error instanceof Error ? error.message : "Unknown error"
+        }`;
+      result.errors.push(message);
+      logger.error(
+        `[${requestId || "system"}] [${functionName}] Failed to repair drift`,
+        { ...drift, error: message }
+      );
+    }
+  };
+
+  // Warm pool entries must be live, unassigned instances
+  for (const instanceId of pool) {
+    const instance = instancesById.get(instanceId);
+    if (!instance) {
+      await record(
+        {
+          kind: RECONCILE_DRIFT.POOL_DEAD_INSTANCE,
+          instanceId,
+          detail: "warm pool entry for a terminated instance",
+        },
+        () => removeFromWarmPool(instanceId, requestId)
+      );
+    } else if (instance.isActive || mappings.has(instanceId)) {
+      await record(
+        {
+          kind: RECONCILE_DRIFT.POOL_ASSIGNED_INSTANCE,
+          instanceId,
+          userId: mappings.get(instanceId) || instance.owner,
+          detail: "warm pool entry for an assigned instance",
+        },
+        () => removeFromWarmPool(instanceId, requestId)
+      );
+    }
+  }
+
+  // Every user Redis knows about must point at a live instance it owns
+  const users = new Set([...pingedUsers, ...mappings.values()]);
+  const liveWorkspaces = new Map<string, string>();
+
+  for (const userId of users) {
+    const workspace = await getUserWorkspace(userId, requestId);
+
+    if (workspace?.state !== INSTANCE_STATE.RUNNING) {
+      if (pingedUsers.includes(userId)) {
+        await record(
+          {
+            kind: RECONCILE_DRIFT.STALE_PING,
+            userId,
+            detail: "ping tracked for a user without a running workspace",
+          },
+          () => removeUserPing(userId, requestId)
+        );
+      }
+      continue;
+    }
+
+    const instance = instancesById.get(workspace.instanceId);
+    if (!instance) {
+      await record(
+        {
+          kind: RECONCILE_DRIFT.STALE_WORKSPACE,
+          userId,
+          instanceId: workspace.instanceId,
+          detail: "running workspace on a terminated instance",
+        },
+        async () => {
+          await cleanupUserData(userId, workspace.instanceId, requestId);
+          await endUsageSession(
+            userId,
+            USAGE_END_REASON.RECONCILED,
+            requestId
+          );
+          if (workspace.subdomain) {
+            await removeWorkspaceNginxConfig(workspace.subdomain);
+          }
+        }
+      );
+      continue;
+    }
+
+    liveWorkspaces.set(workspace.instanceId, userId);
+
+    if (instance.owner !== userId || !instance.isProtected) {
+      await record(
+        {
+          kind: RECONCILE_DRIFT.OWNER_TAG_MISMATCH,
+          userId,
+          instanceId: instance.instanceId,
+          detail: `instance tagged ${instance.owner}${instance.isProtected ? "" : " and unprotected"
+            } while serving a running workspace`,
+        },
+        async () => {
+          await computeProvider.tagInstance(
+            instance.instanceId,
+            userId,
+            requestId,
+            workspace.subdomain
+          );
+          await computeProvider.protectActiveInstances(
+            [instance.instanceId],
+            requestId
+          );
+        }
+      );
+    }
+  }
+
+  // Hibernated workspaces must still have their stopped instance
+  const hibernatedInstances = new Map<string, string>();
+
+  for (const userId of hibernatedUsers) {
+    const workspace = await getUserWorkspace(userId, requestId);
+    if (workspace?.state !== INSTANCE_STATE.HIBERNATED) continue;
+
+    if (instancesById.has(workspace.instanceId)) {
+      hibernatedInstances.set(workspace.instanceId, userId);
+      continue;
+    }
+
+    await record(
+      {
+        kind: RECONCILE_DRIFT.STALE_HIBERNATION,
+        userId,
+        instanceId: workspace.instanceId,
+        detail: "hibernated workspace on a terminated instance",
+      },
+      async () => {
+        if (await claimHibernatedWorkspace(userId, requestId)) {
+          await cleanupUserData(userId, workspace.instanceId, requestId);
+        }
+      }
+    );
+  }
+
+  // Affinity holds must be on live instances
+  const heldInstances = new Set<string>();
+
+  for (const hold of holds) {
+    if (instancesById.has(hold.instanceId)) {
+      heldInstances.add(hold.instanceId);
+      continue;
+    }
+
+    await record(
+      {
+        kind: RECONCILE_DRIFT.STALE_HOLD,
+        userId: hold.userId,
+        instanceId: hold.instanceId,
+        detail: "affinity hold on a terminated instance",
+      },
+      async () => {
+        if (await claimAffinityHold(hold.userId, requestId)) {
+          await removeWorkspaceNginxConfig(hold.subdomain);
+        }
+      }
+    );
+  }
+
+  for (const [instanceId, userId] of mappings) {
+    if (liveWorkspaces.get(instanceId) !== userId) {
+      await record(
+        {
+          kind: RECONCILE_DRIFT.STALE_INSTANCE_MAPPING,
+          instanceId,
+          userId,
+          detail: "instance mapping without a matching running workspace",
+        },
+        () => removeInstanceMapping(instanceId, requestId)
+      );
+    }
+  }
+
+  // Every instance must be serving a workspace or be available in the pool,
+  // unless an allocation is still setting it up
+  for (const instance of instances) {
+    const { instanceId } = instance;
+    if (
+      liveWorkspaces.has(instanceId) ||
+      poolSet.has(instanceId) ||
+      hibernatedInstances.has(instanceId) ||
+      heldInstances.has(instanceId) ||
+      allocating.has(instanceId)
+    ) {
+      continue;
+    }
+
+    if (instance.isActive || instance.isProtected) {
+      await record(
+        {
+          kind: RECONCILE_DRIFT.ORPHANED_INSTANCE,
+          instanceId,
+          userId: instance.isActive ? instance.owner : undefined,
+          detail: `instance ${instance.isActive ? `owned by ${instance.owner}` : "protected"
+            } without a running workspace`,
+        },
+        async () => {
+          // An owner Redis has no record of at all means lost state, not a
+          // missed release: restore the workspace instead of recycling it
+          const ownerWorkspace = instance.isActive
+            ? await getUserWorkspace(instance.owner, requestId)
+            : null;
+          if (instance.isActive && !ownerWorkspace) {
+            await restoreWorkspaceFromInstance(instance, requestId);
+          } else if (
+            instance.isHibernated &&
+            computeProvider.terminateHibernatedInstance
+          ) {
+            // A stopped instance cannot be reset into a warm spare
+            await computeProvider.terminateHibernatedInstance(
+              instanceId,
+              requestId
+            );
+          } else {
+            await recycleInstance(instanceId, instance.tier, requestId);
+          }
+        }
+      );
+    } else {
+      await record(
+        {
+          kind: RECONCILE_DRIFT.UNTRACKED_SPARE,
+          instanceId,
+          detail: "unassigned instance missing from the warm pool",
+        },
+        async () => {
+          const readiness = await computeProvider.checkInstanceReadiness(
+            instanceId,
+            requestId
+          );
+          if (!readiness.isRunning || !readiness.hasPublicIp) {
+            throw new Error("Instance is not ready");
+          }
+          await computeProvider.tagInstance(instanceId, "UNASSIGNED", requestId);
+          await returnInstanceToPool(instanceId, instance.tier, requestId);
+        }
+      );
+    }
+  }
+
+  suspectedDrift = seenDrift;
+
+  logger.info(
+    `[${requestId || "system"}] [${functionName}] State reconciliation completed`,
+    {
+      dryRun,
+      instances: instances.length,
+      drifts: result.drifts.length,
+      repaired: result.drifts.filter((d) => d.repaired).length,
+      errors: result.errors.length,
+    }
+  );
+
+  return result;
+}
+
+export const reconcileJob: ScheduledJob = {
+  name: "reconcile",
+  intervalMs: RECONCILE_INTERVAL_MS,
+  run: async (requestId) => {
+    const result = await reconcileState(requestId);
+    return {
+      summary: {
+        dryRun: result.dryRun,
+        drifts: result.drifts.length,
+        repaired: result.drifts.filter((d) => d.repaired).length,
+      },
+      errors: result.errors,
+    };
+  },
+};
@@ -1,8 +1,53 @@
-import { WorkspaceInfo } from "../types/index";
+import { randomUUID } from "crypto";
+import {
+  AffinityHold,
+  AllocationJob,
+  AllocationJobOptions,
+  AllocationStepEntry,
+  AuditEvent,
+  ErrorResponse,
+  IdleTimeoutConfig,
+  InterruptionNotice,
+  JobRun,
+  QuotaConfig,
+  SparePolicy,
+  SuccessResponse,
+  UsageSession,
+  WorkspaceInfo,
+  WorkspaceSnapshot,
+} from "../types/index";
 import redis from "../lib/redis";
-import { IDLE_TIMEOUT_MS } from "../config/awsConfig";
+import {
+  ALLOCATION_JOB_TIMEOUT_MS,
+  ALLOCATION_JOB_TTL_MS,
+  ALLOCATION_LOCK_TTL_MS,
+  AUDIT_RETENTION_MS,
+  DEFAULT_TIER,
+  IDLE_TIMEOUT_MS,
+  JOB_HISTORY_LIMIT,
+  QUEUE_MAX_WAIT_MS,
+  USAGE_RETENTION_MS,
+  WORKSPACE_TIERS,
+} from "../config/awsConfig";
 import logger from "./logger";
-import { INSTANCE_STATE } from "../lib/enum";
+import {
+  ALLOCATION_JOB_STATUS,
+  ALLOCATION_STEP,
+  INSTANCE_STATE,
+  JOB_RUN_STATUS,
+  USAGE_END_REASON,
+} from "../lib/enum";
+
+// Each tier keeps its own warm pool, allocation queue and set of active users
+const tierPoolKey = (tier: string) => `ws:tier:${tier}:pool`;
+
+// ws:deadlines scores each active user by when they become idle
+const idleDeadline = (lastSeen: number, idleTimeoutMs?: string | null) =>
+  lastSeen + (Number(idleTimeoutMs) || IDLE_TIMEOUT_MS);
+const tierQueueKey = (tier: string) => `ws:tier:${tier}:queue`;
+const tierQueueJobsKey = (tier: string) => `ws:tier:${tier}:queue:jobs`;
+const tierUsersKey = (tier: string) => `ws:tier:${tier}:users`;
+const tierHoldsKey = (tier: string) => `ws:tier:${tier}:holds`;
 
 export async function getUserWorkspace(
   userId: string,
@@ -32,12 +77,20 @@ export async function getUserWorkspace(
 
     const workspace = {
       instanceId: userWorkspace.instanceId,
+      // Workspaces saved before tiers existed belong to the default tier
+      tier: userWorkspace.tier || DEFAULT_TIER,
       publicIp: userWorkspace.publicIp,
       lastSeen: userWorkspace.lastSeen,
       subdomain: userWorkspace.subdomain,
       customDomain: userWorkspace.customDomain,
       state: userWorkspace.state as INSTANCE_STATE,
       ts: userWorkspace.ts,
+      ...(userWorkspace.idleTimeoutMs && {
+        idleTimeoutMs: userWorkspace.idleTimeoutMs,
+      }),
+      ...(userWorkspace.preferredIdleTimeoutMs && {
+        preferredIdleTimeoutMs: userWorkspace.preferredIdleTimeoutMs,
+      }),
     };
 
     logger.info(
@@ -59,27 +112,53 @@ export async function getUserWorkspace(
   }
 }
 
-export async function popWarmSpare(requestId: string): Promise<string | null> {
+// Pops a spare and marks it as being allocated in the same step, so the
+// reconciler never sees it in neither place
+const POP_WARM_SPARE_SCRIPT = `
+local instanceId = redis.call("SPOP", KEYS[1])
+if instanceId then
+  redis.call("ZADD", KEYS[2], ARGV[1], instanceId)
+end
+return instanceId
+`;
+
+/**
+ * Take a spare out of a tier's pool. It stays in ws:allocating until the
+ * workspace is saved, it is returned to the pool or ALLOCATION_LOCK_TTL_MS
+ * passes.
+ */
+export async function popWarmSpare(
+  tier: string,
+  requestId: string
+): Promise<string | null> {
   const functionName = "popWarmSpare";
   logger.debug(
-    `[${requestId || "system"}] [${functionName}] Popping warm spare from pool`
+    `[${requestId || "system"}] [${functionName}] Popping warm spare from pool`,
+    { tier }
   );
 
   try {
-    const instanceId = await redis.spop("ws:pool");
+    const instanceId = (await redis.eval(
+      POP_WARM_SPARE_SCRIPT,
+      2,
+      tierPoolKey(tier),
+      "ws:allocating",
+      (Date.now() + ALLOCATION_LOCK_TTL_MS).toString()
+    )) as string | null;
 
     if (instanceId) {
       logger.info(
         `[${
           requestId || "system"
         }] [${functionName}] Successfully popped warm spare`,
-        { instanceId }
+        { instanceId, tier }
       );
     } else {
       logger.debug(
         `[${
           requestId || "system"
-        }] [${functionName}] No warm spares available in pool`
+        }] [${functionName}] No warm spares available in pool`,
+        { tier }
       );
     }
 
@@ -93,35 +172,91 @@ export async function popWarmSpare(requestId: string): Promise<string | null> {
   }
 }
 
+// Writes the workspace only while the caller still holds the allocation lock
+const FENCED_SET_WORKSPACE_SCRIPT = `
+if redis.call("GET", KEYS[1]) ~= ARGV[1] then
+  return 0
+end
+redis.call("HSET", KEYS[2], unpack(ARGV, 6))
+redis.call("SET", KEYS[3], ARGV[2])
+redis.call("ZADD", KEYS[4], ARGV[3], ARGV[4])
+redis.call("SADD", KEYS[5], ARGV[2])
+redis.call("ZADD", KEYS[6], ARGV[5], ARGV[4])
+redis.call("ZREM", KEYS[7], ARGV[2])
+return 1
+`;
+
 export async function setUserWorkspace(
   userId: string,
   workspace: WorkspaceInfo,
-  requestId: string
+  requestId: string,
+  fencingToken?: number
 ): Promise<void> {
   const functionName = "setUserWorkspace";
   logger.debug(
     `[${requestId || "system"}] [${functionName}] Setting user workspace`,
-    { userId, instanceId: workspace.instanceId, state: workspace.state }
+    {
+      userId,
+      instanceId: workspace.instanceId,
+      state: workspace.state,
+      fencingToken,
+    }
   );
 
   try {
     const wsKey = `ws:${userId}`;
     const instKey = `inst:${workspace.instanceId}`;
+    const fields = {
+      instanceId: workspace.instanceId,
+      tier: workspace.tier,
+      publicIp: workspace.publicIp,
+      subdomain: workspace.subdomain,
+      customDomain: workspace.customDomain,
+      lastSeen: workspace.lastSeen,
+      state: workspace.state,
+      ts: workspace.ts,
+      ...(workspace.idleTimeoutMs && { idleTimeoutMs: workspace.idleTimeoutMs }),
+    };
+    const deadline = idleDeadline(
+      parseInt(workspace.lastSeen),
+      workspace.idleTimeoutMs
+    );
 
-    await redis
-      .multi()
-      .hmset(wsKey, {
-        instanceId: workspace.instanceId,
-        publicIp: workspace.publicIp,
-        subdomain: workspace.subdomain,
-        customDomain: workspace.customDomain,
-        lastSeen: workspace.lastSeen,
-        state: workspace.state,
-        ts: workspace.ts,
-      })
-      .set(`inst:${workspace.instanceId}`, userId)
-      .zadd("ws:pings", parseInt(workspace.lastSeen), userId)
-      .exec();
+    if (fencingToken !== undefined) {
+      const written = await redis.eval(
+        FENCED_SET_WORKSPACE_SCRIPT,
+        7,
+        `lock:alloc:${userId}`,
+        wsKey,
+        instKey,
+        "ws:pings",
+        tierUsersKey(workspace.tier),
+        "ws:deadlines",
+        "ws:allocating",
+        fencingToken.toString(),
+        userId,
+        workspace.lastSeen,
+        userId,
+        deadline.toString(),
+        ...Object.entries(fields).flat()
+      );
+
+      if (written !== 1) {
+        throw new Error(
+          `Allocation lock lost before workspace could be saved (fencing token ${fencingToken})`
+        );
+      }
+    } else {
+      await redis
+        .multi()
+        .hmset(wsKey, fields)
+        .set(instKey, userId)
+        .zadd("ws:pings", parseInt(workspace.lastSeen), userId)
+        .zadd("ws:deadlines", deadline, userId)
+        .sadd(tierUsersKey(workspace.tier), userId)
+        .zrem("ws:allocating", workspace.instanceId)
+        .exec();
+    }
 
     logger.info(
       `[${
@@ -149,19 +284,25 @@ export async function setUserWorkspace(
   }
 }
 
-export async function getActiveUserCount(requestId: string): Promise<number> {
+export async function getActiveUserCount(
+  requestId: string,
+  tier?: string
+): Promise<number> {
   const functionName = "getActiveUserCount";
   logger.debug(
-    `[${requestId || "system"}] [${functionName}] Getting active user count`
+    `[${requestId || "system"}] [${functionName}] Getting active user count`,
+    { tier }
   );
 
   try {
-    const count = await redis.zcard("ws:pings");
+    const count = tier
+      ? await redis.scard(tierUsersKey(tier))
+      : await redis.zcard("ws:pings");
     logger.info(
       `[${
         requestId || "system"
       }] [${functionName}] Retrieved active user count`,
-      { activeUsers: count }
+      { activeUsers: count, tier }
     );
     return count;
   } catch (error) {
@@ -232,6 +373,7 @@ export async function updateUserPing(
   try {
     const now = Date.now();
     const wsKey = `ws:${userId}`;
+    const idleTimeoutMs = await redis.hget(wsKey, "idleTimeoutMs");
 
     await redis
       .multi()
@@ -239,7 +381,9 @@ export async function updateUserPing(
         lastSeen: now.toString(),
         state: "RUNNING",
       })
+      .hdel(wsKey, "busyExtensions")
       .zadd("ws:pings", now, userId)
+      .zadd("ws:deadlines", idleDeadline(now, idleTimeoutMs), userId)
       .exec();
 
     logger.info(
@@ -261,26 +405,82 @@ export async function updateUserPing(
   }
 }
 
+export async function getUserLastPing(
+  userId: string,
+  requestId: string
+): Promise<number | null> {
+  const functionName = "getUserLastPing";
+
+  try {
+    const score = await redis.zscore("ws:pings", userId);
+    return score === null ? null : Number(score);
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to get last ping`,
+      {
+        userId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+export async function getUserIdleDeadline(
+  userId: string,
+  requestId: string
+): Promise<number | null> {
+  const functionName = "getUserIdleDeadline";
+
+  try {
+    const score = await redis.zscore("ws:deadlines", userId);
+    return score === null ? null : Number(score);
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to get idle deadline`,
+      {
+        userId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+/**
+ * Users whose idle deadline in ws:deadlines has passed
+ */
 export async function getIdleUsers(requestId: string): Promise<string[]> {
   const functionName = "getIdleUsers";
-  const cutoffTime = Date.now() - IDLE_TIMEOUT_MS;
+  const now = Date.now();
   logger.debug(
     `[${requestId || "system"}] [${functionName}] Getting idle users`,
-    { cutoffTime, idleTimeoutMs: IDLE_TIMEOUT_MS }
+    { now }
   );
 
   try {
-    const idleUsers = await redis.zrangebyscore("ws:pings", "-inf", cutoffTime);
+    const [expired, stale] = await Promise.all([
+      redis.zrangebyscore("ws:deadlines", "-inf", now),
+      redis.zrangebyscore("ws:pings", "-inf", now - IDLE_TIMEOUT_MS),
+    ]);
+
+    // Pings recorded before deadlines existed fall back to IDLE_TIMEOUT_MS
+    const pipeline = redis.pipeline();
+    stale.forEach((userId) => pipeline.zscore("ws:deadlines", userId));
+    const scores = stale.length > 0 ? (await pipeline.exec()) || [] : [];
+    const legacy = stale.filter((_, i) => scores[i]?.[1] === null);
+
+    const idleUsers = [...expired, ...legacy];
     logger.info(
       `[${requestId || "system"}] [${functionName}] Retrieved idle users`,
-      { idleUserCount: idleUsers.length, cutoffTime }
+      { idleUserCount: idleUsers.length, legacyUsers: legacy.length, now }
     );
     return idleUsers;
   } catch (error) {
     logger.error(
       `[${requestId || "system"}] [${functionName}] Failed to get idle users`,
       {
-        cutoffTime,
+        now,
         error: error instanceof Error ? error.message : "Unknown error",
       }
     );
@@ -288,6 +488,48 @@ export async function getIdleUsers(requestId: string): Promise<string[]> {
   }
 }
 
+/**
+ * Store the user's idle timeout on their workspace and move their deadline
+ * if they are active
+ */
+export async function setUserIdleTimeout(
+  userId: string,
+  preferredMs: number | null,
+  timeoutMs: number,
+  requestId: string
+): Promise<void> {
+  const functionName = "setUserIdleTimeout";
+  const wsKey = `ws:${userId}`;
+
+  try {
+    const lastPing = await redis.zscore("ws:pings", userId);
+    const multi = redis.multi().hset(wsKey, "idleTimeoutMs", timeoutMs.toString());
+    if (preferredMs === null) {
+      multi.hdel(wsKey, "preferredIdleTimeoutMs");
+    } else {
+      multi.hset(wsKey, "preferredIdleTimeoutMs", preferredMs.toString());
+    }
+    if (lastPing !== null) {
+      multi.zadd("ws:deadlines", Number(lastPing) + timeoutMs, userId);
+    }
+    await multi.exec();
+
+    logger.info(
+      `[${requestId || "system"}] [${functionName}] Saved idle timeout`,
+      { userId, preferredMs, timeoutMs }
+    );
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to save idle timeout`,
+      {
+        userId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
 export async function removeFromWarmPool(
   instanceId: string,
   requestId: string
@@ -301,7 +543,12 @@ export async function removeFromWarmPool(
   );
 
   try {
-    await redis.srem("ws:pool", instanceId);
+    // Terminate events only carry the instance, so clear it from every tier
+    const multi = redis.multi();
+    for (const tier of WORKSPACE_TIERS) {
+      multi.srem(tierPoolKey(tier.name), instanceId);
+    }
+    await multi.exec();
     logger.info(
       `[${
         requestId || "system"
@@ -337,12 +584,19 @@ export async function cleanupUserData(
     const wsKey = `ws:${userId}`;
     const instKey = `inst:${instanceId}`;
 
-    await redis
+    const multi = redis
       .multi()
       .hset(wsKey, "state", "STOPPED")
+      .hdel(wsKey, "busyExtensions")
       .zrem("ws:pings", userId)
+      .zrem("ws:deadlines", userId)
       .del(instKey)
-      .exec();
+      // Revoke the heartbeat token so the old container can't ping any more
+      .del(heartbeatTokenKey(instanceId));
+    for (const tier of WORKSPACE_TIERS) {
+      multi.srem(tierUsersKey(tier.name), userId);
+    }
+    await multi.exec();
 
     logger.info(
       `[${
@@ -365,17 +619,268 @@ export async function cleanupUserData(
   }
 }
 
-export async function getWarmPoolSize(requestId: string): Promise<number> {
+/**
+ * Move a user to HIBERNATED: their instance is stopped, so drop it from the
+ * running-workspace indexes and record when it went to sleep in ws:hibernated
+ */
+export async function hibernateUserWorkspace(
+  userId: string,
+  workspace: WorkspaceInfo,
+  requestId: string,
+  hibernatedAt: number = Date.now()
+): Promise<void> {
+  const functionName = "hibernateUserWorkspace";
+
+  try {
+    const multi = redis
+      .multi()
+      .hset(`ws:${userId}`, {
+        ...workspace,
+        state: INSTANCE_STATE.HIBERNATED,
+        hibernatedAt: hibernatedAt.toString(),
+      })
+      .zadd("ws:hibernated", hibernatedAt, userId)
+      .zrem("ws:pings", userId)
+      .zrem("ws:deadlines", userId)
+      .del(`inst:${workspace.instanceId}`)
+      .del(heartbeatTokenKey(workspace.instanceId));
+    for (const tier of WORKSPACE_TIERS) {
+      multi.srem(tierUsersKey(tier.name), userId);
+    }
+    await multi.exec();
+
+    logger.info(
+      `[${requestId || "system"}] [${functionName}] Workspace hibernated`,
+      { userId, instanceId: workspace.instanceId, tier: workspace.tier }
+    );
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to hibernate workspace`,
+      {
+        userId,
+        instanceId: workspace.instanceId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+/**
+ * Take a user out of ws:hibernated. Only the caller that gets true may resume
+ * or terminate the instance, so a resume and the retention sweep never both act.
+ */
+export async function claimHibernatedWorkspace(
+  userId: string,
+  requestId: string
+): Promise<boolean> {
+  const functionName = "claimHibernatedWorkspace";
+
+  try {
+    const [[, removed]] = (await redis
+      .multi()
+      .zrem("ws:hibernated", userId)
+      .hdel(`ws:${userId}`, "hibernatedAt")
+      .exec()) as [[Error | null, number], [Error | null, number]];
+    return removed === 1;
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to claim hibernated workspace`,
+      {
+        userId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+/**
+ * Users with a hibernated workspace, optionally only those asleep since
+ * before a given time
+ */
+export async function getHibernatedUsers(
+  requestId: string,
+  hibernatedBefore: number = Date.now()
+): Promise<string[]> {
+  const functionName = "getHibernatedUsers";
+
+  try {
+    return await redis.zrangebyscore("ws:hibernated", 0, hibernatedBefore);
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to get hibernated users`,
+      { error: error instanceof Error ? error.message : "Unknown error" }
+    );
+    throw error;
+  }
+}
+
+/**
+ * Keep a released instance for its user. The hold lives in ws:hold:<userId>
+ * and the tier's holds ZSet, scored by expiry.
+ */
+export async function holdInstanceForUser(
+  hold: AffinityHold,
+  requestId: string
+): Promise<void> {
+  const functionName = "holdInstanceForUser";
+
+  try {
+    await redis
+      .multi()
+      .hset(`ws:hold:${hold.userId}`, {
+        ...hold,
+        expiresAt: hold.expiresAt.toString(),
+      })
+      .zadd(tierHoldsKey(hold.tier), hold.expiresAt, hold.userId)
+      .exec();
+
+    logger.info(
+      `[${requestId || "system"}] [${functionName}] Holding instance for user`,
+      { ...hold }
+    );
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to hold instance`,
+      {
+        userId: hold.userId,
+        instanceId: hold.instanceId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+/**
+ * Take the user's hold, if any. Removal from the tier's holds ZSet decides
+ * the winner when allocation and the expiry sweep race.
+ */
+export async function claimAffinityHold(
+  userId: string,
+  requestId: string
+): Promise<AffinityHold | null> {
+  const functionName = "claimAffinityHold";
+
+  try {
+    const raw = await redis.hgetall(`ws:hold:${userId}`);
+    if (!raw.instanceId) {
+      return null;
+    }
+
+    const removed = await redis.zrem(tierHoldsKey(raw.tier), userId);
+    if (removed !== 1) {
+      return null;
+    }
+    await redis.del(`ws:hold:${userId}`);
+
+    return { ...raw, expiresAt: Number(raw.expiresAt) } as AffinityHold;
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to claim hold`,
+      {
+        userId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+/**
+ * Users whose hold on a tier's instance has run out
+ */
+export async function getExpiredAffinityHolds(
+  tier: string,
+  requestId: string,
+  now: number = Date.now()
+): Promise<string[]> {
+  const functionName = "getExpiredAffinityHolds";
+
+  try {
+    return await redis.zrangebyscore(tierHoldsKey(tier), 0, now);
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to get expired holds`,
+      {
+        tier,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+export async function getAffinityHolds(
+  requestId: string
+): Promise<AffinityHold[]> {
+  const functionName = "getAffinityHolds";
+
+  try {
+    const userIds = (
+      await Promise.all(
+        WORKSPACE_TIERS.map((tier) => redis.zrange(tierHoldsKey(tier.name), 0, -1))
+      )
+    ).flat();
+    const holds = await Promise.all(
+      userIds.map((userId) => redis.hgetall(`ws:hold:${userId}`))
+    );
+    return holds
+      .filter((raw) => raw.instanceId)
+      .map((raw) => ({ ...raw, expiresAt: Number(raw.expiresAt) }) as AffinityHold);
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to get holds`,
+      { error: error instanceof Error ? error.message : "Unknown error" }
+    );
+    throw error;
+  }
+}
+
+export async function getHeldInstanceCount(
+  requestId: string,
+  tier?: string
+): Promise<number> {
+  const functionName = "getHeldInstanceCount";
+
+  try {
+    const tiers = tier ? [tier] : WORKSPACE_TIERS.map((t) => t.name);
+    const counts = await Promise.all(
+      tiers.map((name) => redis.zcard(tierHoldsKey(name)))
+    );
+    return counts.reduce((sum, count) => sum + count, 0);
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to count held instances`,
+      {
+        tier,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    return 0;
+  }
+}
+
+export async function getWarmPoolSize(
+  requestId: string,
+  tier?: string
+): Promise<number> {
   const functionName = "getWarmPoolSize";
   logger.debug(
-    `[${requestId || "system"}] [${functionName}] Getting warm pool size`
+    `[${requestId || "system"}] [${functionName}] Getting warm pool size`,
+    { tier }
   );
 
   try {
-    const size = await redis.scard("ws:pool");
+    const tiers = tier ? [tier] : WORKSPACE_TIERS.map((t) => t.name);
+    const sizes = await Promise.all(
+      tiers.map((name) => redis.scard(tierPoolKey(name)))
+    );
+    const size = sizes.reduce((sum, n) => sum + n, 0);
     logger.info(
       `[${requestId || "system"}] [${functionName}] Retrieved warm pool size`,
-      { warmPoolSize: size }
+      { warmPoolSize: size, tier }
     );
     return size;
   } catch (error) {
@@ -391,21 +896,26 @@ export async function getWarmPoolSize(requestId: string): Promise<number> {
 
 export async function addToWarmPool(
   instanceId: string,
+  tier: string,
   requestId: string
 ): Promise<void> {
   const functionName = "addToWarmPool";
   logger.debug(
     `[${requestId || "system"}] [${functionName}] Adding instance to warm pool`,
-    { instanceId }
+    { instanceId, tier }
   );
 
   try {
-    await redis.sadd("ws:pool", instanceId);
+    await redis
+      .multi()
+      .sadd(tierPoolKey(tier), instanceId)
+      .zrem("ws:allocating", instanceId)
+      .exec();
     logger.info(
       `[${
         requestId || "system"
       }] [${functionName}] Successfully added instance to warm pool`,
-      { instanceId }
+      { instanceId, tier }
     );
   } catch (error) {
     logger.error(
@@ -420,3 +930,1834 @@ export async function addToWarmPool(
     throw error;
   }
 }
+
+function parseAllocationJob(
+  raw: Record<string, string>
+): AllocationJob | null {
+  if (!raw || Object.keys(raw).length === 0) {
+    return null;
+  }
+
+  return {
+    jobId: raw.jobId,
+    userId: raw.userId,
+    userName: raw.userName,
+    tier: raw.tier || DEFAULT_TIER,
+    orgId: raw.orgId || undefined,
+    subdomain: raw.subdomain || undefined,
+    status: raw.status as ALLOCATION_JOB_STATUS,
+    step: raw.step as ALLOCATION_STEP,
+    steps: raw.steps ? (JSON.parse(raw.steps) as AllocationStepEntry[]) : [],
+    createdAt: raw.createdAt,
+    updatedAt: raw.updatedAt,
+    completedAt: raw.completedAt || undefined,
+    result: raw.result
+      ? (JSON.parse(raw.result) as SuccessResponse | ErrorResponse)
+      : undefined,
+  };
+}
+
+export async function createAllocationJob(
+  userId: string,
+  userName: string,
+  options: AllocationJobOptions,
+  requestId: string
+): Promise<AllocationJob> {
+  const functionName = "createAllocationJob";
+  const { tier, orgId, subdomain } = options;
+  logger.debug(
+    `[${requestId || "system"}] [${functionName}] Creating allocation job`,
+    { userId, tier }
+  );
+
+  try {
+    const now = Date.now().toString();
+    const job: AllocationJob = {
+      jobId: randomUUID(),
+      userId,
+      userName,
+      tier,
+      ...(orgId && { orgId }),
+      ...(subdomain && { subdomain }),
+      status: ALLOCATION_JOB_STATUS.PENDING,
+      step: ALLOCATION_STEP.QUEUED,
+      steps: [{ step: ALLOCATION_STEP.QUEUED, at: now }],
+      createdAt: now,
+      updatedAt: now,
+    };
+    const jobKey = `alloc:${job.jobId}`;
+
+    await redis
+      .multi()
+      .hmset(jobKey, {
+        jobId: job.jobId,
+        userId: job.userId,
+        userName: job.userName,
+        tier: job.tier,
+        ...(orgId && { orgId }),
+        ...(subdomain && { subdomain }),
+        status: job.status,
+        step: job.step,
+        steps: JSON.stringify(job.steps),
+        createdAt: job.createdAt,
+        updatedAt: job.updatedAt,
+      })
+      .pexpire(jobKey, ALLOCATION_JOB_TTL_MS)
+      .set(`alloc:user:${userId}`, job.jobId, "PX", ALLOCATION_JOB_TIMEOUT_MS)
+      .exec();
+
+    logger.info(
+      `[${requestId || "system"}] [${functionName}] Created allocation job`,
+      { userId, jobId: job.jobId, tier }
+    );
+    return job;
+  } catch (error) {
+    logger.error(
+      `[${
+        requestId || "system"
+      }] [${functionName}] Failed to create allocation job`,
+      {
+        userId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+export async function getAllocationJob(
+  jobId: string,
+  requestId: string
+): Promise<AllocationJob | null> {
+  const functionName = "getAllocationJob";
+  logger.debug(
+    `[${requestId || "system"}] [${functionName}] Getting allocation job`,
+    { jobId }
+  );
+
+  try {
+    const raw = await redis.hgetall(`alloc:${jobId}`);
+    return parseAllocationJob(raw);
+  } catch (error) {
+    logger.error(
+      `[${
+        requestId || "system"
+      }] [${functionName}] Failed to get allocation job`,
+      {
+        jobId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    return null;
+  }
+}
+
+export async function getActiveAllocationJob(
+  userId: string,
+  requestId: string
+): Promise<AllocationJob | null> {
+  const functionName = "getActiveAllocationJob";
+  logger.debug(
+    `[${
+      requestId || "system"
+    }] [${functionName}] Getting active allocation job for user`,
+    { userId }
+  );
+
+  try {
+    const jobId = await redis.get(`alloc:user:${userId}`);
+    if (!jobId) {
+      return null;
+    }
+
+    const job = await getAllocationJob(jobId, requestId);
+    if (
+      !job ||
+      job.status === ALLOCATION_JOB_STATUS.SUCCEEDED ||
+      job.status === ALLOCATION_JOB_STATUS.FAILED
+    ) {
+      return null;
+    }
+
+    return job;
+  } catch (error) {
+    logger.error(
+      `[${
+        requestId || "system"
+      }] [${functionName}] Failed to get active allocation job`,
+      {
+        userId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    return null;
+  }
+}
+
+export async function updateAllocationJobStep(
+  jobId: string,
+  step: ALLOCATION_STEP,
+  requestId: string,
+  status: ALLOCATION_JOB_STATUS = ALLOCATION_JOB_STATUS.RUNNING
+): Promise<AllocationJob | null> {
+  const functionName = "updateAllocationJobStep";
+  logger.debug(
+    `[${
+      requestId || "system"
+    }] [${functionName}] Updating allocation job step`,
+    { jobId, step }
+  );
+
+  try {
+    const jobKey = `alloc:${jobId}`;
+    const job = parseAllocationJob(await redis.hgetall(jobKey));
+    if (!job) {
+      logger.warn(
+        `[${requestId || "system"}] [${functionName}] Allocation job not found`,
+        { jobId, step }
+      );
+      return null;
+    }
+
+    const now = Date.now().toString();
+    job.status = status;
+    job.step = step;
+    job.steps.push({ step, at: now });
+    job.updatedAt = now;
+
+    await redis.hmset(jobKey, {
+      status: job.status,
+      step: job.step,
+      steps: JSON.stringify(job.steps),
+      updatedAt: job.updatedAt,
+    });
+
+    return job;
+  } catch (error) {
+    logger.error(
+      `[${
+        requestId || "system"
+      }] [${functionName}] Failed to update allocation job step`,
+      {
+        jobId,
+        step,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    return null;
+  }
+}
+
+export async function completeAllocationJob(
+  jobId: string,
+  result: SuccessResponse | ErrorResponse,
+  requestId: string
+): Promise<AllocationJob | null> {
+  const functionName = "completeAllocationJob";
+  logger.debug(
+    `[${requestId || "system"}] [${functionName}] Completing allocation job`,
+    { jobId, success: result.success }
+  );
+
+  try {
+    const jobKey = `alloc:${jobId}`;
+    const job = parseAllocationJob(await redis.hgetall(jobKey));
+    if (!job) {
+      logger.warn(
+        `[${requestId || "system"}] [${functionName}] Allocation job not found`,
+        { jobId }
+      );
+      return null;
+    }
+
+    const now = Date.now().toString();
+    job.status = result.success
+      ? ALLOCATION_JOB_STATUS.SUCCEEDED
+      : ALLOCATION_JOB_STATUS.FAILED;
+    job.result = result;
+    job.updatedAt = now;
+    job.completedAt = now;
+
+    const userJobKey = `alloc:user:${job.userId}`;
+    const transaction = redis.multi().hmset(jobKey, {
+      status: job.status,
+      result: JSON.stringify(result),
+      updatedAt: job.updatedAt,
+      completedAt: job.completedAt,
+    });
+    if ((await redis.get(userJobKey)) === jobId) {
+      transaction.del(userJobKey);
+    }
+    await transaction.exec();
+
+    logger.info(
+      `[${
+        requestId || "system"
+      }] [${functionName}] Allocation job completed`,
+      { jobId, userId: job.userId, status: job.status }
+    );
+    return job;
+  } catch (error) {
+    logger.error(
+      `[${
+        requestId || "system"
+      }] [${functionName}] Failed to complete allocation job`,
+      {
+        jobId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    return null;
+  }
+}
+
+// Fencing tokens keep increasing across lock holders, so a stale holder can be told apart
+const ACQUIRE_ALLOCATION_LOCK_SCRIPT = `
+if redis.call("EXISTS", KEYS[1]) == 1 then
+  return nil
+end
+local token = redis.call("INCR", KEYS[2])
+redis.call("SET", KEYS[1], token, "PX", ARGV[1])
+return token
+`;
+
+const RELEASE_ALLOCATION_LOCK_SCRIPT = `
+if redis.call("GET", KEYS[1]) == ARGV[1] then
+  return redis.call("DEL", KEYS[1])
+end
+return 0
+`;
+
+export async function acquireAllocationLock(
+  userId: string,
+  requestId: string
+): Promise<number | null> {
+  const functionName = "acquireAllocationLock";
+  logger.debug(
+    `[${requestId || "system"}] [${functionName}] Acquiring allocation lock`,
+    { userId }
+  );
+
+  try {
+    const token = (await redis.eval(
+      ACQUIRE_ALLOCATION_LOCK_SCRIPT,
+      2,
+      `lock:alloc:${userId}`,
+      `lock:alloc:fence:${userId}`,
+      ALLOCATION_LOCK_TTL_MS.toString()
+    )) as number | null;
+
+    if (token === null) {
+      logger.debug(
+        `[${
+          requestId || "system"
+        }] [${functionName}] Allocation lock is held by another request`,
+        { userId }
+      );
+      return null;
+    }
+
+    logger.info(
+      `[${requestId || "system"}] [${functionName}] Acquired allocation lock`,
+      { userId, fencingToken: token }
+    );
+    return token;
+  } catch (error) {
+    logger.error(
+      `[${
+        requestId || "system"
+      }] [${functionName}] Failed to acquire allocation lock`,
+      {
+        userId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+export async function releaseAllocationLock(
+  userId: string,
+  fencingToken: number,
+  requestId: string
+): Promise<void> {
+  const functionName = "releaseAllocationLock";
+  logger.debug(
+    `[${requestId || "system"}] [${functionName}] Releasing allocation lock`,
+    { userId, fencingToken }
+  );
+
+  try {
+    const released = await redis.eval(
+      RELEASE_ALLOCATION_LOCK_SCRIPT,
+      1,
+      `lock:alloc:${userId}`,
+      fencingToken.toString()
+    );
+
+    if (released !== 1) {
+      logger.warn(
+        `[${
+          requestId || "system"
+        }] [${functionName}] Allocation lock had already expired or changed hands`,
+        { userId, fencingToken }
+      );
+    }
+  } catch (error) {
+    logger.error(
+      `[${
+        requestId || "system"
+      }] [${functionName}] Failed to release allocation lock`,
+      {
+        userId,
+        fencingToken,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+  }
+}
+
+export async function isAllocationLocked(
+  userId: string,
+  requestId: string
+): Promise<boolean> {
+  const functionName = "isAllocationLocked";
+
+  try {
+    return (await redis.exists(`lock:alloc:${userId}`)) === 1;
+  } catch (error) {
+    logger.error(
+      `[${
+        requestId || "system"
+      }] [${functionName}] Failed to check allocation lock`,
+      {
+        userId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    return false;
+  }
+}
+
+// Pops the oldest queued user together with the job waiting for a machine
+const DEQUEUE_ALLOCATION_SCRIPT = `
+local popped = redis.call("ZPOPMIN", KEYS[1])
+if #popped == 0 then
+  return nil
+end
+local jobId = redis.call("HGET", KEYS[2], popped[1])
+redis.call("HDEL", KEYS[2], popped[1])
+return { popped[1], jobId }
+`;
+
+export async function enqueueAllocation(
+  userId: string,
+  jobId: string,
+  tier: string,
+  requestId: string
+): Promise<number> {
+  const functionName = "enqueueAllocation";
+  logger.debug(
+    `[${requestId || "system"}] [${functionName}] Adding user to allocation queue`,
+    { userId, jobId, tier }
+  );
+
+  try {
+    // A strictly increasing sequence keeps the queue FIFO even within one millisecond
+    const sequence = await redis.incr("ws:queue:seq");
+    await redis
+      .multi()
+      .zadd(tierQueueKey(tier), "NX", sequence, userId)
+      .hset(tierQueueJobsKey(tier), userId, jobId)
+      .set(`alloc:user:${userId}`, jobId, "PX", QUEUE_MAX_WAIT_MS)
+      .exec();
+
+    const rank = await redis.zrank(tierQueueKey(tier), userId);
+    const position = (rank ?? 0) + 1;
+
+    logger.info(
+      `[${requestId || "system"}] [${functionName}] User added to allocation queue`,
+      { userId, jobId, tier, position }
+    );
+    return position;
+  } catch (error) {
+    logger.error(
+      `[${
+        requestId || "system"
+      }] [${functionName}] Failed to add user to allocation queue`,
+      {
+        userId,
+        jobId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+export async function dequeueAllocation(
+  tier: string,
+  requestId: string
+): Promise<{ userId: string; jobId: string | null } | null> {
+  const functionName = "dequeueAllocation";
+  logger.debug(
+    `[${requestId || "system"}] [${functionName}] Popping head of allocation queue`,
+    { tier }
+  );
+
+  try {
+    const popped = (await redis.eval(
+      DEQUEUE_ALLOCATION_SCRIPT,
+      2,
+      tierQueueKey(tier),
+      tierQueueJobsKey(tier)
+    )) as [string, string | null] | null;
+
+    if (!popped) {
+      return null;
+    }
+
+    const [userId, jobId] = popped;
+    logger.info(
+      `[${requestId || "system"}] [${functionName}] Popped queued user`,
+      { userId, jobId, tier }
+    );
+    return { userId, jobId };
+  } catch (error) {
+    logger.error(
+      `[${
+        requestId || "system"
+      }] [${functionName}] Failed to pop allocation queue`,
+      { error: error instanceof Error ? error.message : "Unknown error" }
+    );
+    return null;
+  }
+}
+
+export async function removeFromAllocationQueue(
+  userId: string,
+  requestId: string
+): Promise<void> {
+  const functionName = "removeFromAllocationQueue";
+  logger.debug(
+    `[${
+      requestId || "system"
+    }] [${functionName}] Removing user from allocation queue`,
+    { userId }
+  );
+
+  try {
+    const multi = redis.multi();
+    for (const tier of WORKSPACE_TIERS) {
+      multi
+        .zrem(tierQueueKey(tier.name), userId)
+        .hdel(tierQueueJobsKey(tier.name), userId);
+    }
+    await multi.exec();
+  } catch (error) {
+    logger.error(
+      `[${
+        requestId || "system"
+      }] [${functionName}] Failed to remove user from allocation queue`,
+      {
+        userId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+export async function getQueuePosition(
+  userId: string,
+  requestId: string
+): Promise<{ tier: string; position: number } | null> {
+  const functionName = "getQueuePosition";
+
+  try {
+    for (const tier of WORKSPACE_TIERS) {
+      const rank = await redis.zrank(tierQueueKey(tier.name), userId);
+      if (rank !== null) {
+        return { tier: tier.name, position: rank + 1 };
+      }
+    }
+    return null;
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to get queue position`,
+      {
+        userId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    return null;
+  }
+}
+
+export async function getQueuedUsers(
+  tier: string,
+  requestId: string
+): Promise<string[]> {
+  const functionName = "getQueuedUsers";
+
+  try {
+    return await redis.zrange(tierQueueKey(tier), 0, -1);
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to get queued users`,
+      { error: error instanceof Error ? error.message : "Unknown error" }
+    );
+    return [];
+  }
+}
+
+export async function getQueueLength(
+  requestId: string,
+  tier?: string
+): Promise<number> {
+  const functionName = "getQueueLength";
+
+  try {
+    const tiers = tier ? [tier] : WORKSPACE_TIERS.map((t) => t.name);
+    const lengths = await Promise.all(
+      tiers.map((name) => redis.zcard(tierQueueKey(name)))
+    );
+    return lengths.reduce((sum, n) => sum + n, 0);
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to get queue length`,
+      { error: error instanceof Error ? error.message : "Unknown error" }
+    );
+    return 0;
+  }
+}
+
+export async function getWarmPoolMembers(requestId: string): Promise<string[]> {
+  const functionName = "getWarmPoolMembers";
+
+  try {
+    const pools = await Promise.all(
+      WORKSPACE_TIERS.map((tier) => redis.smembers(tierPoolKey(tier.name)))
+    );
+    return pools.flat();
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to get warm pool members`,
+      { error: error instanceof Error ? error.message : "Unknown error" }
+    );
+    throw error;
+  }
+}
+
+export async function getPingedUsers(requestId: string): Promise<string[]> {
+  const functionName = "getPingedUsers";
+
+  try {
+    return await redis.zrange("ws:pings", 0, -1);
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to get pinged users`,
+      { error: error instanceof Error ? error.message : "Unknown error" }
+    );
+    throw error;
+  }
+}
+
+/**
+ * All inst:<instanceId> -> userId mappings, read with SCAN
+ */
+export async function getInstanceMappings(
+  requestId: string
+): Promise<Map<string, string>> {
+  const functionName = "getInstanceMappings";
+
+  try {
+    const mappings = new Map<string, string>();
+    let cursor = "0";
+
+    do {
+      const [next, keys] = await redis.scan(cursor, "MATCH", "inst:*", "COUNT", 100);
+      cursor = next;
+      if (keys.length === 0) continue;
+
+      const userIds = await redis.mget(...keys);
+      keys.forEach((key, i) => {
+        const userId = userIds[i];
+        if (userId) mappings.set(key.slice("inst:".length), userId);
+      });
+    } while (cursor !== "0");
+
+    return mappings;
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to get instance mappings`,
+      { error: error instanceof Error ? error.message : "Unknown error" }
+    );
+    throw error;
+  }
+}
+
+export async function removeUserPing(
+  userId: string,
+  requestId: string
+): Promise<void> {
+  const functionName = "removeUserPing";
+
+  try {
+    const multi = redis
+      .multi()
+      .zrem("ws:pings", userId)
+      .zrem("ws:deadlines", userId);
+    for (const tier of WORKSPACE_TIERS) {
+      multi.srem(tierUsersKey(tier.name), userId);
+    }
+    await multi.exec();
+    logger.info(
+      `[${requestId || "system"}] [${functionName}] Removed user ping`,
+      { userId }
+    );
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to remove user ping`,
+      {
+        userId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+export async function removeInstanceMapping(
+  instanceId: string,
+  requestId: string
+): Promise<void> {
+  const functionName = "removeInstanceMapping";
+
+  try {
+    await redis.del(`inst:${instanceId}`, heartbeatTokenKey(instanceId));
+    logger.info(
+      `[${requestId || "system"}] [${functionName}] Removed instance mapping`,
+      { instanceId }
+    );
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"
+      }] [${functionName}] Failed to remove instance mapping`,
+      {
+        instanceId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+export async function getSparePolicies(
+  requestId: string
+): Promise<SparePolicy[]> {
+  const functionName = "getSparePolicies";
+
+  try {
+    const raw = await redis.get("ws:spare:policies");
+    return raw ? (JSON.parse(raw) as SparePolicy[]) : [];
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to get spare policies`,
+      { error: error instanceof Error ? error.message : "Unknown error" }
+    );
+    return [];
+  }
+}
+
+export async function setSparePolicies(
+  policies: SparePolicy[],
+  requestId: string
+): Promise<void> {
+  const functionName = "setSparePolicies";
+
+  try {
+    await redis.set("ws:spare:policies", JSON.stringify(policies));
+    logger.info(
+      `[${requestId || "system"}] [${functionName}] Saved spare policies`,
+      { count: policies.length }
+    );
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to save spare policies`,
+      { error: error instanceof Error ? error.message : "Unknown error" }
+    );
+    throw error;
+  }
+}
+
+function parseUsageSession(raw: Record<string, string>): UsageSession | null {
+  if (!raw || !raw.sessionId) {
+    return null;
+  }
+
+  return {
+    sessionId: raw.sessionId,
+    userId: raw.userId,
+    instanceId: raw.instanceId,
+    tier: raw.tier || DEFAULT_TIER,
+    orgId: raw.orgId || undefined,
+    startedAt: raw.startedAt,
+    endedAt: raw.endedAt || undefined,
+    endReason: (raw.endReason as USAGE_END_REASON) || undefined,
+  };
+}
+
+// Closes the user's open session; returns its id, or nil if none was open
+const END_USAGE_SESSION_SCRIPT = `
+local sessionId = redis.call("GET", KEYS[1])
+if not sessionId then
+  return nil
+end
+local sessionKey = ARGV[1] .. sessionId
+redis.call("HSET", sessionKey, "endedAt", ARGV[2], "endReason", ARGV[3])
+redis.call("PEXPIRE", sessionKey, ARGV[4])
+redis.call("DEL", KEYS[1])
+return sessionId
+`;
+
+/**
+ * Close the user's open usage session. Ledger writes never fail the caller.
+ */
+export async function endUsageSession(
+  userId: string,
+  reason: USAGE_END_REASON,
+  requestId: string
+): Promise<string | null> {
+  const functionName = "endUsageSession";
+
+  try {
+    const sessionId = (await redis.eval(
+      END_USAGE_SESSION_SCRIPT,
+      1,
+      `usage:open:${userId}`,
+      "usage:session:",
+      Date.now().toString(),
+      reason,
+      USAGE_RETENTION_MS
+    )) as string | null;
+
+    if (sessionId) {
+      logger.info(
+        `[${requestId || "system"}] [${functionName}] Usage session ended`,
+        { userId, sessionId, reason }
+      );
+    }
+    return sessionId;
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to end usage session`,
+      {
+        userId,
+        reason,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    return null;
+  }
+}
+
+/**
+ * Open a usage session for a newly assigned workspace
+ */
+export async function startUsageSession(
+  userId: string,
+  instanceId: string,
+  tier: string,
+  requestId: string,
+  orgId?: string
+): Promise<UsageSession | null> {
+  const functionName = "startUsageSession";
+
+  try {
+    // A session left open by a crash would otherwise run on forever
+    await endUsageSession(userId, USAGE_END_REASON.REPLACED, requestId);
+
+    const now = Date.now();
+    const session: UsageSession = {
+      sessionId: randomUUID(),
+      userId,
+      instanceId,
+      tier,
+      ...(orgId && { orgId }),
+      startedAt: now.toString(),
+    };
+    const cutoff = now - USAGE_RETENTION_MS;
+
+    const multi = redis
+      .multi()
+      .hmset(`usage:session:${session.sessionId}`, {
+        sessionId: session.sessionId,
+        userId,
+        instanceId,
+        tier,
+        ...(orgId && { orgId }),
+        startedAt: session.startedAt,
+      })
+      .set(`usage:open:${userId}`, session.sessionId)
+      .zadd("usage:sessions", now, session.sessionId)
+      .zadd(`usage:user:${userId}`, now, session.sessionId)
+      .zremrangebyscore("usage:sessions", "-inf", cutoff)
+      .zremrangebyscore(`usage:user:${userId}`, "-inf", cutoff);
+    if (orgId) {
+      multi
+        .zadd(`usage:org:${orgId}`, now, session.sessionId)
+        .zremrangebyscore(`usage:org:${orgId}`, "-inf", cutoff);
+    }
+    await multi.exec();
+
+    logger.info(
+      `[${requestId || "system"}] [${functionName}] Usage session started`,
+      { userId, orgId, instanceId, tier, sessionId: session.sessionId }
+    );
+    return session;
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to start usage session`,
+      {
+        userId,
+        instanceId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    return null;
+  }
+}
+
+export async function getOpenUsageSession(
+  userId: string,
+  requestId: string
+): Promise<UsageSession | null> {
+  const functionName = "getOpenUsageSession";
+
+  try {
+    const sessionId = await redis.get(`usage:open:${userId}`);
+    if (!sessionId) {
+      return null;
+    }
+    return parseUsageSession(await redis.hgetall(`usage:session:${sessionId}`));
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to get open usage session`,
+      {
+        userId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+/**
+ * Sessions that started between from and to (epoch ms), oldest first, for
+ * one user, one organization or everyone
+ */
+export async function getUsageSessions(
+  from: number,
+  to: number,
+  requestId: string,
+  filter: { userId?: string; orgId?: string } = {}
+): Promise<UsageSession[]> {
+  const functionName = "getUsageSessions";
+  const { userId, orgId } = filter;
+
+  try {
+    const indexKey = userId
+      ? `usage:user:${userId}`
+      : orgId
+        ? `usage:org:${orgId}`
+        : "usage:sessions";
+    const sessionIds = await redis.zrangebyscore(indexKey, from, to);
+    if (sessionIds.length === 0) {
+      return [];
+    }
+
+    const pipeline = redis.pipeline();
+    for (const sessionId of sessionIds) {
+      pipeline.hgetall(`usage:session:${sessionId}`);
+    }
+    const results = (await pipeline.exec()) || [];
+
+    return results
+      .map(([, raw]) => parseUsageSession(raw as Record<string, string>))
+      .filter((session): session is UsageSession => session !== null);
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to get usage sessions`,
+      {
+        userId,
+        orgId,
+        from,
+        to,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+export async function getQuotaConfig(requestId: string): Promise<QuotaConfig> {
+  const functionName = "getQuotaConfig";
+
+  try {
+    const raw = await redis.get("ws:quotas");
+    return raw ? (JSON.parse(raw) as QuotaConfig) : { users: {}, orgs: {} };
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to get quota config`,
+      { error: error instanceof Error ? error.message : "Unknown error" }
+    );
+    throw error;
+  }
+}
+
+export async function setQuotaConfig(
+  config: QuotaConfig,
+  requestId: string
+): Promise<void> {
+  const functionName = "setQuotaConfig";
+
+  try {
+    await redis.set("ws:quotas", JSON.stringify(config));
+    logger.info(
+      `[${requestId || "system"}] [${functionName}] Saved quota config`,
+      {
+        defaultMonthlyHours: config.defaultMonthlyHours,
+        users: Object.keys(config.users).length,
+        orgs: Object.keys(config.orgs).length,
+      }
+    );
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to save quota config`,
+      { error: error instanceof Error ? error.message : "Unknown error" }
+    );
+    throw error;
+  }
+}
+
+// Kept past the termination time so a reconnecting editor still sees why
+const INTERRUPTION_NOTICE_TTL_SECONDS = 10 * 60;
+
+export async function setInterruptionNotice(
+  notice: InterruptionNotice,
+  requestId: string
+): Promise<void> {
+  const functionName = "setInterruptionNotice";
+
+  try {
+    await redis.set(
+      `ws:interrupt:${notice.instanceId}`,
+      JSON.stringify(notice),
+      "EX",
+      INTERRUPTION_NOTICE_TTL_SECONDS
+    );
+    logger.info(
+      `[${requestId || "system"}] [${functionName}] Saved interruption notice`,
+      {
+        instanceId: notice.instanceId,
+        userId: notice.userId,
+        terminatesAt: notice.terminatesAt,
+      }
+    );
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to save interruption notice`,
+      {
+        instanceId: notice.instanceId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+export async function getInterruptionNotice(
+  instanceId: string,
+  requestId: string
+): Promise<InterruptionNotice | null> {
+  const functionName = "getInterruptionNotice";
+
+  try {
+    const raw = await redis.get(`ws:interrupt:${instanceId}`);
+    return raw ? (JSON.parse(raw) as InterruptionNotice) : null;
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to get interruption notice`,
+      {
+        instanceId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    return null;
+  }
+}
+
+export async function getIdleTimeoutConfig(
+  requestId: string
+): Promise<IdleTimeoutConfig> {
+  const functionName = "getIdleTimeoutConfig";
+
+  try {
+    const raw = await redis.get("ws:idle-timeouts");
+    return raw
+      ? (JSON.parse(raw) as IdleTimeoutConfig)
+      : { tiers: {}, orgs: {} };
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to get idle timeout config`,
+      { error: error instanceof Error ? error.message : "Unknown error" }
+    );
+    throw error;
+  }
+}
+
+export async function setIdleTimeoutConfig(
+  config: IdleTimeoutConfig,
+  requestId: string
+): Promise<void> {
+  const functionName = "setIdleTimeoutConfig";
+
+  try {
+    await redis.set("ws:idle-timeouts", JSON.stringify(config));
+    logger.info(
+      `[${requestId || "system"}] [${functionName}] Saved idle timeout config`,
+      {
+        default: config.default,
+        tiers: Object.keys(config.tiers).length,
+        orgs: Object.keys(config.orgs).length,
+      }
+    );
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to save idle timeout config`,
+      { error: error instanceof Error ? error.message : "Unknown error" }
+    );
+    throw error;
+  }
+}
+
+// The lease holder renews by ID; a new holder gets the next term
+const ACQUIRE_LEADER_LEASE_SCRIPT = `
+local holder = redis.call("GET", KEYS[1])
+if holder == ARGV[1] then
+  redis.call("PEXPIRE", KEYS[1], ARGV[2])
+  return tonumber(redis.call("GET", KEYS[2]))
+end
+if holder then
+  return nil
+end
+redis.call("SET", KEYS[1], ARGV[1], "PX", ARGV[2])
+return redis.call("INCR", KEYS[2])
+`;
+
+const RELEASE_LEADER_LEASE_SCRIPT = `
+if redis.call("GET", KEYS[1]) == ARGV[1] then
+  return redis.call("DEL", KEYS[1])
+end
+return 0
+`;
+
+/**
+ * Take or renew the leader lease. Returns the leader term, or null while
+ * another replica holds it.
+ */
+export async function acquireLeaderLease(
+  replicaId: string,
+  leaseMs: number,
+  requestId: string
+): Promise<number | null> {
+  const functionName = "acquireLeaderLease";
+
+  try {
+    return (await redis.eval(
+      ACQUIRE_LEADER_LEASE_SCRIPT,
+      2,
+      "leader:lease",
+      "leader:term",
+      replicaId,
+      leaseMs.toString()
+    )) as number | null;
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to acquire leader lease`,
+      {
+        replicaId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+export async function releaseLeaderLease(
+  replicaId: string,
+  requestId: string
+): Promise<void> {
+  const functionName = "releaseLeaderLease";
+
+  try {
+    await redis.eval(RELEASE_LEADER_LEASE_SCRIPT, 1, "leader:lease", replicaId);
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to release leader lease`,
+      {
+        replicaId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+  }
+}
+
+export async function getLeaderLease(requestId: string): Promise<{
+  leaderId: string | null;
+  term: number;
+  leaseExpiresAt: number | null;
+}> {
+  const functionName = "getLeaderLease";
+
+  try {
+    const [[, leaderId], [, ttl], [, term]] = (await redis
+      .multi()
+      .get("leader:lease")
+      .pttl("leader:lease")
+      .get("leader:term")
+      .exec()) as [Error | null, unknown][];
+
+    return {
+      leaderId: (leaderId as string | null) || null,
+      term: Number(term) || 0,
+      leaseExpiresAt:
+        leaderId && Number(ttl) > 0 ? Date.now() + Number(ttl) : null,
+    };
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to get leader lease`,
+      { error: error instanceof Error ? error.message : "Unknown error" }
+    );
+    throw error;
+  }
+}
+
+/**
+ * Add a finished run to its job's history, newest first. Failed runs are
+ * also kept in jobs:failures.
+ */
+export async function recordJobRun(
+  run: JobRun,
+  requestId: string
+): Promise<void> {
+  const functionName = "recordJobRun";
+
+  try {
+    const entry = JSON.stringify(run);
+    const multi = redis
+      .multi()
+      .lpush(`jobs:runs:${run.job}`, entry)
+      .ltrim(`jobs:runs:${run.job}`, 0, JOB_HISTORY_LIMIT - 1);
+    if (run.status === JOB_RUN_STATUS.FAILED) {
+      multi
+        .lpush("jobs:failures", entry)
+        .ltrim("jobs:failures", 0, JOB_HISTORY_LIMIT - 1);
+    }
+    await multi.exec();
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to record job run`,
+      {
+        job: run.job,
+        runId: run.runId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+  }
+}
+
+async function readJobRuns(key: string, limit: number): Promise<JobRun[]> {
+  const entries = await redis.lrange(key, 0, limit - 1);
+  return entries.map((entry) => JSON.parse(entry) as JobRun);
+}
+
+export async function getJobRuns(
+  job: string,
+  limit: number,
+  requestId: string
+): Promise<JobRun[]> {
+  const functionName = "getJobRuns";
+
+  try {
+    return await readJobRuns(`jobs:runs:${job}`, limit);
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to get job runs`,
+      {
+        job,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+/**
+ * Most recent failed runs across all jobs
+ */
+export async function getJobFailures(
+  limit: number,
+  requestId: string
+): Promise<JobRun[]> {
+  const functionName = "getJobFailures";
+
+  try {
+    return await readJobRuns("jobs:failures", limit);
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to get job failures`,
+      { error: error instanceof Error ? error.message : "Unknown error" }
+    );
+    throw error;
+  }
+}
+
+export async function addWorkspaceSnapshot(
+  snapshot: WorkspaceSnapshot,
+  requestId: string
+): Promise<void> {
+  const functionName = "addWorkspaceSnapshot";
+
+  try {
+    await redis.hset(
+      `ws:snapshots:${snapshot.userId}`,
+      snapshot.snapshotId,
+      JSON.stringify(snapshot)
+    );
+    logger.info(
+      `[${requestId || "system"}] [${functionName}] Recorded workspace snapshot`,
+      { ...snapshot }
+    );
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to record workspace snapshot`,
+      {
+        userId: snapshot.userId,
+        snapshotId: snapshot.snapshotId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+/**
+ * A user's snapshots, newest first
+ */
+export async function getWorkspaceSnapshots(
+  userId: string,
+  requestId: string
+): Promise<WorkspaceSnapshot[]> {
+  const functionName = "getWorkspaceSnapshots";
+
+  try {
+    const entries = await redis.hvals(`ws:snapshots:${userId}`);
+    return entries
+      .map((entry) => JSON.parse(entry) as WorkspaceSnapshot)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to get workspace snapshots`,
+      {
+        userId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+export async function removeWorkspaceSnapshots(
+  userId: string,
+  snapshotIds: string[],
+  requestId: string
+): Promise<void> {
+  const functionName = "removeWorkspaceSnapshots";
+  if (snapshotIds.length === 0) {
+    return;
+  }
+
+  try {
+    await redis.hdel(`ws:snapshots:${userId}`, ...snapshotIds);
+    logger.info(
+      `[${requestId || "system"}] [${functionName}] Removed workspace snapshots`,
+      { userId, snapshotIds }
+    );
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to remove workspace snapshots`,
+      {
+        userId,
+        snapshotIds,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+/**
+ * Snapshot to unpack into the user's directory on their next allocation
+ */
+export async function getPendingRestore(
+  userId: string,
+  requestId: string
+): Promise<string | null> {
+  const functionName = "getPendingRestore";
+
+  try {
+    return await redis.get(`ws:restore:${userId}`);
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to get pending restore`,
+      {
+        userId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+export async function setPendingRestore(
+  userId: string,
+  snapshotId: string | null,
+  requestId: string
+): Promise<void> {
+  const functionName = "setPendingRestore";
+
+  try {
+    if (snapshotId === null) {
+      await redis.del(`ws:restore:${userId}`);
+    } else {
+      await redis.set(`ws:restore:${userId}`, snapshotId);
+    }
+    logger.info(
+      `[${requestId || "system"}] [${functionName}] Updated pending restore`,
+      { userId, snapshotId }
+    );
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to update pending restore`,
+      {
+        userId,
+        snapshotId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+/**
+ * Store an audit event, indexed by time and by user. Audit writes never fail
+ * the caller.
+ */
+export async function addAuditEvent(
+  event: AuditEvent,
+  requestId: string
+): Promise<void> {
+  const functionName = "addAuditEvent";
+
+  try {
+    const cutoff = event.timestamp - AUDIT_RETENTION_MS;
+    const multi = redis
+      .multi()
+      .set(
+        `audit:event:${event.eventId}`,
+        JSON.stringify(event),
+        "PX",
+        AUDIT_RETENTION_MS
+      )
+      .zadd("audit:events", event.timestamp, event.eventId)
+      .zremrangebyscore("audit:events", "-inf", cutoff);
+    if (event.userId) {
+      multi
+        .zadd(`audit:user:${event.userId}`, event.timestamp, event.eventId)
+        .zremrangebyscore(`audit:user:${event.userId}`, "-inf", cutoff);
+    }
+    await multi.exec();
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to store audit event`,
+      {
+        ...event,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+  }
+}
+
+/**
+ * Audit events between from and to (epoch ms), oldest first, for one user or
+ * everyone
+ */
+export async function getAuditEvents(
+  from: number,
+  to: number,
+  requestId: string,
+  userId?: string
+): Promise<AuditEvent[]> {
+  const functionName = "getAuditEvents";
+
+  try {
+    const eventIds = await redis.zrangebyscore(
+      userId ? `audit:user:${userId}` : "audit:events",
+      from,
+      to
+    );
+    if (eventIds.length === 0) {
+      return [];
+    }
+
+    const entries = await redis.mget(
+      eventIds.map((eventId) => `audit:event:${eventId}`)
+    );
+    return entries
+      .filter((entry): entry is string => entry !== null)
+      .map((entry) => JSON.parse(entry) as AuditEvent);
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to get audit events`,
+      {
+        userId,
+        from,
+        to,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+function heartbeatTokenKey(instanceId: string): string {
+  return `hb:token:${instanceId}`;
+}
+
+export async function setHeartbeatToken(
+  instanceId: string,
+  token: string,
+  requestId: string
+): Promise<void> {
+  const functionName = "setHeartbeatToken";
+
+  try {
+    await redis.set(heartbeatTokenKey(instanceId), token);
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to store heartbeat token`,
+      {
+        instanceId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+export async function getHeartbeatToken(
+  instanceId: string,
+  requestId: string
+): Promise<string | null> {
+  const functionName = "getHeartbeatToken";
+
+  try {
+    return await redis.get(heartbeatTokenKey(instanceId));
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to get heartbeat token`,
+      {
+        instanceId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+export async function revokeHeartbeatToken(
+  instanceId: string,
+  requestId: string
+): Promise<void> {
+  const functionName = "revokeHeartbeatToken";
+
+  try {
+    await redis.del(heartbeatTokenKey(instanceId));
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to revoke heartbeat token`,
+      {
+        instanceId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+/**
+ * Record a heartbeat nonce for ttlMs. False when the instance already used
+ * it, i.e. the ping is a replay.
+ */
+export async function claimHeartbeatNonce(
+  instanceId: string,
+  nonce: string,
+  ttlMs: number,
+  requestId: string
+): Promise<boolean> {
+  const functionName = "claimHeartbeatNonce";
+
+  try {
+    const result = await redis.set(
+      `hb:nonce:${instanceId}:${nonce}`,
+      "1",
+      "PX",
+      ttlMs,
+      "NX"
+    );
+    return result === "OK";
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to claim heartbeat nonce`,
+      {
+        instanceId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+/**
+ * Mark an instance handed straight to an allocation, without going through
+ * the pool, as being allocated
+ */
+export async function markInstanceAllocating(
+  instanceId: string,
+  requestId: string
+): Promise<void> {
+  const functionName = "markInstanceAllocating";
+
+  try {
+    await redis.zadd(
+      "ws:allocating",
+      Date.now() + ALLOCATION_LOCK_TTL_MS,
+      instanceId
+    );
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to mark instance as allocating`,
+      {
+        instanceId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+export async function clearAllocatingInstance(
+  instanceId: string,
+  requestId: string
+): Promise<void> {
+  const functionName = "clearAllocatingInstance";
+
+  try {
+    await redis.zrem("ws:allocating", instanceId);
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to clear allocating instance`,
+      {
+        instanceId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+/**
+ * Instances an allocation is still setting up. Marks older than
+ * ALLOCATION_LOCK_TTL_MS belong to allocations that died and are dropped.
+ */
+export async function getAllocatingInstances(
+  requestId: string
+): Promise<Set<string>> {
+  const functionName = "getAllocatingInstances";
+
+  try {
+    const now = Date.now();
+    const [, live] = (await redis
+      .multi()
+      .zremrangebyscore("ws:allocating", "-inf", now)
+      .zrangebyscore("ws:allocating", now, "+inf")
+      .exec()) as [[Error | null, number], [Error | null, string[]]];
+    return new Set(live[1]);
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to get allocating instances`,
+      { error: error instanceof Error ? error.message : "Unknown error" }
+    );
+    throw error;
+  }
+}
+
+// Moves the pre-tier single pool and queue into a tier's keys. Queue scores
+// come from the same ws:queue:seq counter, so the merged queue stays FIFO.
+const MIGRATE_SINGLE_POOL_SCRIPT = `
+local spares = redis.call("SMEMBERS", KEYS[1])
+for _, instanceId in ipairs(spares) do
+  redis.call("SADD", KEYS[2], instanceId)
+end
+local queued = redis.call("ZRANGE", KEYS[3], 0, -1, "WITHSCORES")
+for i = 1, #queued, 2 do
+  redis.call("ZADD", KEYS[4], "NX", queued[i + 1], queued[i])
+end
+local jobs = redis.call("HGETALL", KEYS[5])
+for i = 1, #jobs, 2 do
+  redis.call("HSETNX", KEYS[6], jobs[i], jobs[i + 1])
+end
+redis.call("DEL", KEYS[1], KEYS[3], KEYS[5])
+return { #spares, #queued / 2 }
+`;
+
+/**
+ * Move ws:pool and ws:queue, left over from before tiers, into a tier's pool
+ * and queue. Finds nothing to move once it has run.
+ */
+export async function migrateSinglePoolKeys(
+  tier: string,
+  requestId: string
+): Promise<{ spares: number; queued: number }> {
+  const functionName = "migrateSinglePoolKeys";
+
+  try {
+    const [spares, queued] = (await redis.eval(
+      MIGRATE_SINGLE_POOL_SCRIPT,
+      6,
+      "ws:pool",
+      tierPoolKey(tier),
+      "ws:queue",
+      tierQueueKey(tier),
+      "ws:queue:jobs",
+      tierQueueJobsKey(tier)
+    )) as [number, number];
+    return { spares, queued };
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to migrate single-pool keys`,
+      {
+        tier,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+/**
+ * Add every user in ws:pings to their workspace tier's active users. Running
+ * workspaces saved before tiers existed count towards DEFAULT_TIER.
+ */
+export async function backfillTierUsers(requestId: string): Promise<number> {
+  const functionName = "backfillTierUsers";
+
+  try {
+    const userIds = await redis.zrange("ws:pings", 0, -1);
+    if (userIds.length === 0) {
+      return 0;
+    }
+
+    const pipeline = redis.pipeline();
+    for (const userId of userIds) {
+      pipeline.hget(`ws:${userId}`, "tier");
+    }
+    const tiers = (await pipeline.exec()) || [];
+
+    const multi = redis.multi();
+    userIds.forEach((userId, index) => {
+      const tier = (tiers[index]?.[1] as string | null) || DEFAULT_TIER;
+      multi.sadd(tierUsersKey(tier), userId);
+    });
+    await multi.exec();
+
+    return userIds.length;
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to backfill tier users`,
+      { error: error instanceof Error ? error.message : "Unknown error" }
+    );
+    throw error;
+  }
+}
+
+/**
+ * Idle timeouts the instance's activity has already added since the user
+ * was last active in the browser
+ */
+export async function getBusyExtensions(
+  userId: string,
+  requestId: string
+): Promise<number> {
+  const functionName = "getBusyExtensions";
+
+  try {
+    return Number(await redis.hget(`ws:${userId}`, "busyExtensions")) || 0;
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to get busy extensions`,
+      {
+        userId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
+
+/**
+ * Give an idle user whose instance is busy another idle timeout, counting it
+ * towards INSTANCE_ACTIVITY_MAX_EXTENSIONS. Unlike a ping, lastSeen is kept.
+ */
+export async function extendBusyWorkspace(
+  userId: string,
+  instanceId: string,
+  requestId: string
+): Promise<void> {
+  const functionName = "extendBusyWorkspace";
+
+  try {
+    const now = Date.now();
+    const wsKey = `ws:${userId}`;
+    const idleTimeoutMs = await redis.hget(wsKey, "idleTimeoutMs");
+
+    await redis
+      .multi()
+      .hincrby(wsKey, "busyExtensions", 1)
+      .zadd("ws:pings", now, userId)
+      .zadd("ws:deadlines", idleDeadline(now, idleTimeoutMs), userId)
+      .exec();
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Failed to extend busy workspace`,
+      {
+        userId,
+        instanceId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+    throw error;
+  }
+}
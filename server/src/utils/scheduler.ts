@@ -0,0 +1,178 @@
+import { randomUUID } from "crypto";
+import { REPLICA_ID } from "../config/awsConfig";
+import { JOB_RUN_STATUS } from "../lib/enum";
+import { JobOutcome, JobRun, ScheduledJob } from "../types";
+import { cleanupJob } from "./cleanUpManager";
+import { reconcileJob } from "./reconciler";
+import { getJobFailures, getJobRuns, recordJobRun } from "./redisUtils";
+import logger from "./logger";
+
+// Periodic jobs run by the leader replica
+export const SCHEDULED_JOBS: ScheduledJob[] = [cleanupJob, reconcileJob];
+
+const timers = new Map<string, NodeJS.Timeout>();
+const runningJobs = new Set<string>();
+// Bumped on every stop so timers from an earlier start don't reschedule
+let generation = 0;
+let started = false;
+
+async function runJob(job: ScheduledJob): Promise<JobRun> {
+  const functionName = "runJob";
+  const requestId = `${job.name}-${Date.now()}`;
+  const startedAt = Date.now();
+
+  logger.debug(`[${requestId}] [${functionName}] Running scheduled job`, {
+    job: job.name,
+  });
+
+  runningJobs.add(job.name);
+  let outcome: JobOutcome;
+  try {
+    outcome = await job.run(requestId);
+  } catch (error) {
+    outcome = {
+      summary: {},
+      errors: [error instanceof Error ? error.message : "Unknown error"],
+    };
+  } finally {
+    runningJobs.delete(job.name);
+  }
+
+  const finishedAt = Date.now();
+  const run: JobRun = {
+    runId: randomUUID(),
+    job: job.name,
+    replicaId: REPLICA_ID,
+    status:
+      outcome.errors.length > 0
+        ? JOB_RUN_STATUS.FAILED
+        : JOB_RUN_STATUS.SUCCEEDED,
+    startedAt,
+    finishedAt,
+    durationMs: finishedAt - startedAt,
+    ...outcome,
+  };
+  await recordJobRun(run, requestId);
+
+  if (run.status === JOB_RUN_STATUS.FAILED) {
+    logger.error(`[${requestId}] [${functionName}] Scheduled job failed`, {
+      job: job.name,
+      durationMs: run.durationMs,
+      errors: run.errors,
+    });
+  } else {
+    logger.info(`[${requestId}] [${functionName}] Scheduled job completed`, {
+      job: job.name,
+      durationMs: run.durationMs,
+      ...run.summary,
+    });
+  }
+
+  return run;
+}
+
+function schedule(job: ScheduledJob, delayMs: number, runGeneration: number) {
+  const functionName = "schedule";
+
+  timers.set(
+    job.name,
+    setTimeout(async () => {
+      const startedAt = Date.now();
+
+      // A run left over from before a restart of the scheduler is still going
+      if (runningJobs.has(job.name)) {
+        logger.warn(
+          `[system] [${functionName}] Previous run still in progress, skipping`,
+          { job: job.name }
+        );
+      } else {
+        await runJob(job);
+      }
+
+      // Runs start every intervalMs; one that overran starts the next at once
+      if (runGeneration === generation) {
+        schedule(
+          job,
+          Math.max(0, job.intervalMs - (Date.now() - startedAt)),
+          runGeneration
+        );
+      }
+    }, delayMs)
+  );
+}
+
+/**
+ * Start every scheduled job on its own interval. A job never overlaps
+ * itself: the next run is only scheduled once the current one finishes.
+ */
+export function startScheduler(): void {
+  const functionName = "startScheduler";
+  if (started) {
+    return;
+  }
+  started = true;
+
+  logger.info(`[system] [${functionName}] Starting job scheduler`, {
+    jobs: SCHEDULED_JOBS.map((job) => ({
+      name: job.name,
+      intervalMs: job.intervalMs,
+    })),
+  });
+
+  for (const job of SCHEDULED_JOBS) {
+    schedule(job, job.intervalMs, generation);
+  }
+}
+
+/**
+ * Stop scheduling runs. Runs already in progress finish on their own.
+ */
+export function stopScheduler(): void {
+  const functionName = "stopScheduler";
+  if (!started) {
+    return;
+  }
+  started = false;
+  generation++;
+
+  for (const timer of timers.values()) {
+    clearTimeout(timer);
+  }
+  timers.clear();
+
+  logger.info(`[system] [${functionName}] Stopped job scheduler`, {
+    runningJobs: [...runningJobs],
+  });
+}
+
+/**
+ * Each job's interval and most recent runs, plus the latest failures
+ * across all jobs
+ */
+export async function getJobHistory(
+  limit: number,
+  requestId: string
+): Promise<{
+  jobs: (Pick<ScheduledJob, "name" | "intervalMs"> & {
+    running: boolean;
+    runs: JobRun[];
+  })[];
+  failures: JobRun[];
+}> {
+  const [runs, failures] = await Promise.all([
+    Promise.all(
+      SCHEDULED_JOBS.map((job) => getJobRuns(job.name, limit, requestId))
+    ),
+    getJobFailures(limit, requestId),
+  ]);
+
+  return {
+    jobs: SCHEDULED_JOBS.map((job, index) => ({
+      name: job.name,
+      intervalMs: job.intervalMs,
+      running: runningJobs.has(job.name),
+      runs: runs[index],
+    })),
+    failures,
+  };
+}
@@ -0,0 +1,272 @@
+import { randomUUID } from "crypto";
+import {
+  SNAPSHOT_ON_RELEASE,
+  SNAPSHOT_RETENTION_COUNT,
+} from "../config/awsConfig";
+import { AUDIT_REASON, INSTANCE_STATE, SNAPSHOT_TRIGGER } from "../lib/enum";
+import { WorkspaceSnapshot } from "../types";
+import computeProvider from "../providers";
+import {
+  addWorkspaceSnapshot,
+  getPendingRestore,
+  getUserWorkspace,
+  getWorkspaceSnapshots,
+  removeWorkspaceSnapshots,
+  setPendingRestore,
+} from "./redisUtils";
+import { releaseAffinityHold, releaseMachine } from "./machineManager";
+import logger from "./logger";
+
+// Everything the code-server container mounts from the user's directory
+const SNAPSHOT_DIRS = ["workspace", ".vscode-server", ".config", ".local"];
+
+/**
+ * Run with bash on a host that has the shared storage at root. Archives the
+ * user's directories to root/.snapshots/<userId>/<snapshotId>.tar.gz,
+ * deletes the archives in prune and prints the new archive's size.
+ */
+export function snapshotArchiveScript(
+  root: string,
+  userId: string,
+  snapshotId: string,
+  prune: string[]
+): string {
+  return `set -e
+USER_DIR="${root}/${userId}"
+SNAPSHOT_DIR="${root}/.snapshots/${userId}"
+ARCHIVE="\${SNAPSHOT_DIR}/${snapshotId}.tar.gz"
+
+cd "\${USER_DIR}"
+DIRS=""
+for dir in ${SNAPSHOT_DIRS.join(" ")}; do
+    [ -e "\${dir}" ] && DIRS="\${DIRS} \${dir}"
+done
+if [ -z "\${DIRS}" ]; then
+    echo "Nothing to snapshot in \${USER_DIR}" >&2
+    exit 1
+fi
+
+sync
+mkdir -p "\${SNAPSHOT_DIR}"
+# Status 1 only means files changed while they were archived
+tar -czf "\${ARCHIVE}.partial" \${DIRS} || [ $? -eq 1 ]
+mv "\${ARCHIVE}.partial" "\${ARCHIVE}"
+${prune.map((id) => `rm -f "\${SNAPSHOT_DIR}/${id}.tar.gz"`).join("\n")}
+stat -c %s "\${ARCHIVE}"`;
+}
+
+/**
+ * Run with bash on a host that has the shared storage at root. Replaces the
+ * archived directories in the user's directory with the snapshot's copies.
+ */
+export function snapshotRestoreScript(
+  root: string,
+  userId: string,
+  snapshotId: string
+): string {
+  return `set -e
+USER_DIR="${root}/${userId}"
+SNAPSHOT_DIR="${root}/.snapshots/${userId}"
+ARCHIVE="\${SNAPSHOT_DIR}/${snapshotId}.tar.gz"
+STAGING="\${SNAPSHOT_DIR}/restore-${snapshotId}"
+
+if [ ! -f "\${ARCHIVE}" ]; then
+    echo "Snapshot archive \${ARCHIVE} is missing" >&2
+    exit 1
+fi
+
+# Unpack next to the archive so the swap below is a rename on the same volume
+rm -rf "\${STAGING}"
+mkdir -p "\${STAGING}" "\${USER_DIR}"
+tar -xzf "\${ARCHIVE}" -C "\${STAGING}"
+for dir in ${SNAPSHOT_DIRS.join(" ")}; do
+    [ -e "\${STAGING}/\${dir}" ] || continue
+    rm -rf "\${USER_DIR:?}/\${dir}"
+    mv "\${STAGING}/\${dir}" "\${USER_DIR}/\${dir}"
+done
+rm -rf "\${STAGING}"
+
+# Keep workspace setup from writing its welcome files over the restored ones
+touch "\${USER_DIR}/.workspace-initialized"
+echo "Restored snapshot ${snapshotId}"`;
+}
+
+export function parseSnapshotSize(output: string): number {
+  const match = output.trim().match(/(\d+)$/);
+  if (!match) {
+    throw new Error(`Unexpected snapshot output: ${output.trim()}`);
+  }
+  return Number(match[1]);
+}
+
+/**
+ * Archive the user's directory from the instance running their workspace.
+ * Keeps the newest SNAPSHOT_RETENTION_COUNT archives, plus the one a pending
+ * restore points at.
+ */
+export async function takeSnapshot(
+  userId: string,
+  instanceId: string,
+  trigger: SNAPSHOT_TRIGGER,
+  requestId: string
+): Promise<WorkspaceSnapshot> {
+  const functionName = "takeSnapshot";
+  if (!computeProvider.snapshotWorkspace) {
+    throw new Error(
+      `The ${computeProvider.name} provider does not support snapshots`
+    );
+  }
+
+  const [existing, pendingRestore] = await Promise.all([
+    getWorkspaceSnapshots(userId, requestId),
+    getPendingRestore(userId, requestId),
+  ]);
+  const prune = existing
+    .slice(Math.max(0, SNAPSHOT_RETENTION_COUNT - 1))
+    .map((snapshot) => snapshot.snapshotId)
+    .filter((snapshotId) => snapshotId !== pendingRestore);
+
+  const snapshotId = randomUUID();
+  logger.info(
+    `[${requestId || "system"}] [${functionName}] Taking workspace snapshot`,
+    { userId, instanceId, snapshotId, trigger, prune }
+  );
+
+  const sizeBytes = await computeProvider.snapshotWorkspace(
+    instanceId,
+    userId,
+    snapshotId,
+    prune,
+    requestId
+  );
+  const snapshot: WorkspaceSnapshot = {
+    snapshotId,
+    userId,
+    trigger,
+    instanceId,
+    createdAt: Date.now(),
+    sizeBytes,
+  };
+  await addWorkspaceSnapshot(snapshot, requestId);
+  await removeWorkspaceSnapshots(userId, prune, requestId);
+
+  return snapshot;
+}
+
+/**
+ * Snapshot a workspace that is about to be released. Failures are logged and
+ * never hold up the release.
+ */
+export async function snapshotOnRelease(
+  userId: string,
+  instanceId: string,
+  requestId: string
+): Promise<void> {
+  const functionName = "snapshotOnRelease";
+  if (!SNAPSHOT_ON_RELEASE || !computeProvider.snapshotWorkspace) {
+    return;
+  }
+
+  try {
+    await takeSnapshot(userId, instanceId, SNAPSHOT_TRIGGER.RELEASE, requestId);
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"}] [${functionName}] Release snapshot failed, releasing anyway`,
+      {
+        userId,
+        instanceId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+  }
+}
+
+export async function getSnapshotStatus(
+  userId: string,
+  requestId: string
+): Promise<{ snapshots: WorkspaceSnapshot[]; pendingRestore: string | null }> {
+  const [snapshots, pendingRestore] = await Promise.all([
+    getWorkspaceSnapshots(userId, requestId),
+    getPendingRestore(userId, requestId),
+  ]);
+  return { snapshots, pendingRestore };
+}
+
+/**
+ * Queue a snapshot to be restored on the user's next allocation. A running
+ * workspace has to be released first; a hibernated or held instance is given
+ * up so the next allocation sets up a fresh one from the restored files.
+ */
+export async function requestRestore(
+  userId: string,
+  snapshotId: string,
+  requestId: string
+): Promise<
+  { snapshot: WorkspaceSnapshot } | { error: string; statusCode: 404 | 409 }
+> {
+  const functionName = "requestRestore";
+
+  const snapshot = (await getWorkspaceSnapshots(userId, requestId)).find(
+    (entry) => entry.snapshotId === snapshotId
+  );
+  if (!snapshot) {
+    return { error: "Snapshot not found", statusCode: 404 };
+  }
+  if (!computeProvider.restoreWorkspace) {
+    return {
+      error: `The ${computeProvider.name} provider does not support restores`,
+      statusCode: 409,
+    };
+  }
+
+  const workspace = await getUserWorkspace(userId, requestId);
+  if (workspace?.state === INSTANCE_STATE.RUNNING) {
+    return {
+      error: "Release your workspace before restoring a snapshot",
+      statusCode: 409,
+    };
+  }
+  if (workspace?.state === INSTANCE_STATE.HIBERNATED) {
+    await releaseMachine(userId, requestId);
+  }
+  await releaseAffinityHold(userId, AUDIT_REASON.MANUAL, requestId);
+
+  await setPendingRestore(userId, snapshotId, requestId);
+  logger.info(
+    `[${requestId || "system"}] [${functionName}] Restore queued for next allocation`,
+    { userId, snapshotId, createdAt: snapshot.createdAt }
+  );
+
+  return { snapshot };
+}
+
+/**
+ * Unpack the pending snapshot into the user's directory from the instance
+ * being allocated to them, then clear it. A failure fails the allocation and
+ * leaves the restore pending.
+ */
+export async function restorePendingSnapshot(
+  userId: string,
+  instanceId: string,
+  snapshotId: string,
+  requestId: string
+): Promise<void> {
+  const functionName = "restorePendingSnapshot";
+  if (!computeProvider.restoreWorkspace) {
+    throw new Error(
+      `The ${computeProvider.name} provider does not support restores`
+    );
+  }
+
+  logger.info(
+    `[${requestId || "system"}] [${functionName}] Restoring workspace snapshot`,
+    { userId, instanceId, snapshotId }
+  );
+  await computeProvider.restoreWorkspace(
+    instanceId,
+    userId,
+    snapshotId,
+    requestId
+  );
+  await setPendingRestore(userId, null, requestId);
+}
@@ -0,0 +1,169 @@
+import { randomUUID } from "crypto";
+import { SPARE_POLICY_TIMEZONE, WORKSPACE_TIERS } from "../config/awsConfig";
+import { CapacityTarget, SparePolicy } from "../types";
+import { getSparePolicies } from "./redisUtils";
+import { getTier, requireTier } from "./tiers";
+import logger from "./logger";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function localDayAndTime(now: Date): { day: number; time: string } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: SPARE_POLICY_TIMEZONE,
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(now);
+  const part = (type: string) => parts.find((p) => p.type === type)?.value;
+
+  return {
+    day: WEEKDAYS.indexOf(part("weekday") || ""),
+    time: `${part("hour")}:${part("minute")}`,
+  };
+}
+
+function isPolicyActive(policy: SparePolicy, now: Date): boolean {
+  const { day, time } = localDayAndTime(now);
+
+  if (policy.start <= policy.end) {
+    return (
+      policy.days.includes(day) && time >= policy.start && time < policy.end
+    );
+  }
+
+  // Overnight window: the part after midnight belongs to the previous day
+  const previousDay = (day + 6) % 7;
+  return (
+    (policy.days.includes(day) && time >= policy.start) ||
+    (policy.days.includes(previousDay) && time < policy.end)
+  );
+}
+
+/**
+ * Validate an admin-supplied policy list. Policies without an id get one.
+ */
+export function validateSparePolicies(input: unknown): {
+  policies: SparePolicy[];
+  errors: string[];
+} {
+  const errors: string[] = [];
+
+  if (!Array.isArray(input)) {
+    return { policies: [], errors: ["policies must be an array"] };
+  }
+
+  const policies = input.map((raw, index) => {
+    const policy = (raw || {}) as Partial<SparePolicy>;
+    const label = `policies[${index}]`;
+
+    if (typeof policy.name !== "string" || !policy.name.trim()) {
+      errors.push(`${label}.name is required`);
+    }
+    const tier = policy.tier === undefined ? undefined : getTier(policy.tier);
+    if (policy.tier !== undefined && !tier) {
+      errors.push(`${label}.tier must be one of the configured tiers`);
+    }
+    // Without a tier the policy applies everywhere and is capped per tier
+    const maxMachines =
+      tier?.maxMachines ??
+      Math.max(...WORKSPACE_TIERS.map((t) => t.maxMachines));
+    if (
+      !Array.isArray(policy.days) ||
+      policy.days.length === 0 ||
+      !policy.days.every((d) => Number.isInteger(d) && d >= 0 && d <= 6)
+    ) {
+      errors.push(`${label}.days must be a non-empty list of 0-6 (0 = Sunday)`);
+    }
+    for (const field of ["start", "end"] as const) {
+      if (typeof policy[field] !== "string" || !TIME_PATTERN.test(policy[field])) {
+        errors.push(`${label}.${field} must be HH:MM`);
+      }
+    }
+    if (policy.start && policy.start === policy.end) {
+      errors.push(`${label} start and end must differ`);
+    }
+    if (!Number.isInteger(policy.warmSpares) || policy.warmSpares! < 0) {
+      errors.push(`${label}.warmSpares must be a non-negative integer`);
+    }
+    if (
+      !Number.isInteger(policy.maxMachines) ||
+      policy.maxMachines! < 1 ||
+      policy.maxMachines! > maxMachines
+    ) {
+      errors.push(`${label}.maxMachines must be between 1 and ${maxMachines}`);
+    }
+
+    return {
+      id: policy.id || randomUUID(),
+      name: policy.name?.trim() || "",
+      ...(policy.tier !== undefined && { tier: policy.tier }),
+      days: policy.days || [],
+      start: policy.start || "",
+      end: policy.end || "",
+      warmSpares: policy.warmSpares || 0,
+      maxMachines: policy.maxMachines || maxMachines,
+    };
+  });
+
+  return { policies, errors };
+}
+
+/**
+ * Warm spare count and machine ceiling in effect now for a tier: the first
+ * policy for that tier (or for all tiers) whose window contains the current
+ * time, else the tier's own warmSpares and maxMachines.
+ */
+export async function getCapacityTarget(
+  tierName: string,
+  requestId: string,
+  now: Date = new Date()
+): Promise<CapacityTarget> {
+  const functionName = "getCapacityTarget";
+  const tier = requireTier(tierName);
+  const policies = await getSparePolicies(requestId);
+  const policy =
+    policies.find(
+      (p) => (!p.tier || p.tier === tierName) && isPolicyActive(p, now)
+    ) || null;
+
+  const target: CapacityTarget = policy
+    ? {
+      warmSpares: policy.warmSpares,
+      maxMachines: Math.min(policy.maxMachines, tier.maxMachines),
+      policy,
+    }
+    : {
+      warmSpares: tier.warmSpares,
+      maxMachines: tier.maxMachines,
+      policy: null,
+    };
+
+  logger.debug(
+    `[${requestId || "system"}] [${functionName}] Resolved capacity target`,
+    {
+      tier: tierName,
+      policy: policy?.name || "default",
+      warmSpares: target.warmSpares,
+      maxMachines: target.maxMachines,
+      timezone: SPARE_POLICY_TIMEZONE,
+    }
+  );
+
+  return target;
+}
+
+/**
+ * Capacity target of every tier, keyed by tier name
+ */
+export async function getCapacityTargets(
+  requestId: string
+): Promise<Record<string, CapacityTarget>> {
+  const targets = await Promise.all(
+    WORKSPACE_TIERS.map((tier) => getCapacityTarget(tier.name, requestId))
+  );
+  return Object.fromEntries(
+    WORKSPACE_TIERS.map((tier, index) => [tier.name, targets[index]])
+  );
+}
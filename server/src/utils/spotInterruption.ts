@@ -0,0 +1,150 @@
+import computeProvider from "../providers";
+import { SPOT_INTERRUPTION_NOTICE_MS } from "../config/awsConfig";
+import {
+  AUDIT_ACTION,
+  AUDIT_REASON,
+  INSTANCE_STATE,
+  USAGE_END_REASON,
+} from "../lib/enum";
+import {
+  cleanupUserData,
+  endUsageSession,
+  getOpenUsageSession,
+  getHeartbeatToken,
+  getUserFromInstance,
+  getUserWorkspace,
+  removeFromWarmPool,
+  setInterruptionNotice,
+} from "./redisUtils";
+import { startAllocationJob } from "./machineManager";
+import { recordAuditEvent } from "./audit";
+import logger from "./logger";
+
+/**
+ * EC2 is about to reclaim a spot instance. Warn the editor through /ping,
+ * flush the workspace to EFS and move the user to a replacement instance on
+ * the same subdomain. A warm spare that gets interrupted is just dropped from
+ * the pool; the terminate lifecycle event does the rest.
+ */
+export async function handleSpotInterruption(
+  instanceId: string,
+  warningTime: string | undefined,
+  requestId: string
+): Promise<void> {
+  const functionName = "handleSpotInterruption";
+  const warnedAt = warningTime ? Date.parse(warningTime) : NaN;
+  const terminatesAt =
+    (Number.isNaN(warnedAt) ? Date.now() : warnedAt) +
+    SPOT_INTERRUPTION_NOTICE_MS;
+
+  logger.warn(
+    `[${requestId || "system"}] [${functionName}] Spot interruption warning`,
+    { instanceId, terminatesAt }
+  );
+
+  try {
+    await removeFromWarmPool(instanceId, requestId);
+
+    const userId = await getUserFromInstance(instanceId, requestId);
+    if (!userId) {
+      logger.info(
+        `[${requestId || "system"
+        }] [${functionName}] Interrupted instance was not assigned`,
+        { instanceId }
+      );
+      return;
+    }
+
+    const workspace = await getUserWorkspace(userId, requestId);
+    if (
+      !workspace ||
+      workspace.state !== INSTANCE_STATE.RUNNING ||
+      workspace.instanceId !== instanceId
+    ) {
+      logger.info(
+        `[${requestId || "system"
+        }] [${functionName}] User no longer runs on the interrupted instance`,
+        { instanceId, userId, state: workspace?.state }
+      );
+      return;
+    }
+
+    // The move revokes the instance's token; keep it so the old editor's
+    // pings still verify and pick up the notice
+    const heartbeatToken = await getHeartbeatToken(instanceId, requestId);
+    await setInterruptionNotice(
+      {
+        instanceId,
+        userId,
+        terminatesAt,
+        ...(heartbeatToken && { heartbeatToken }),
+      },
+      requestId
+    );
+
+    if (computeProvider.flushWorkspace) {
+      try {
+        await computeProvider.flushWorkspace(instanceId, requestId);
+      } catch (error) {
+        // Whatever already reached EFS survives; keep going with the move
+        logger.error(
+          `[${requestId || "system"
+          }] [${functionName}] Workspace flush failed, migrating anyway`,
+          {
+            instanceId,
+            userId,
+            error: error instanceof Error ? error.message : "Unknown error",
+          }
+        );
+      }
+    }
+
+    const session = await getOpenUsageSession(userId, requestId);
+    await cleanupUserData(userId, instanceId, requestId);
+    await endUsageSession(
+      userId,
+      USAGE_END_REASON.SPOT_INTERRUPTED,
+      requestId
+    );
+    await recordAuditEvent(
+      {
+        action: AUDIT_ACTION.RELEASE,
+        reason: AUDIT_REASON.SPOT,
+        actor: computeProvider.name,
+        userId,
+        instanceId,
+        tier: workspace.tier,
+        details: { terminatesAt, migrated: true },
+      },
+      requestId
+    );
+
+    // Same subdomain, so the nginx site is rewritten to the new instance
+    const job = await startAllocationJob(userId, userId, requestId, {
+      tier: workspace.tier,
+      orgId: session?.orgId,
+      subdomain: workspace.subdomain,
+    });
+
+    logger.info(
+      `[${requestId || "system"
+      }] [${functionName}] Started replacement allocation`,
+      {
+        instanceId,
+        userId,
+        jobId: job.jobId,
+        tier: workspace.tier,
+        subdomain: workspace.subdomain,
+      }
+    );
+  } catch (error) {
+    logger.error(
+      `[${requestId || "system"
+      }] [${functionName}] Failed to handle spot interruption`,
+      {
+        instanceId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      }
+    );
+  }
+}
@@ -0,0 +1,218 @@
+import computeProvider from "../providers";
+import { INSTANCE_STATE } from "../lib/enum";
+import { RecoveryResult, TierInstanceInfo, WorkspaceInfo } from "../types";
+import {
+  addToWarmPool,
+  getAllocatingInstances,
+  getInstanceMappings,
+  getUserWorkspace,
+  getWarmPoolMembers,
+  hibernateUserWorkspace,
+  setUserWorkspace,
+  startUsageSession,
+} from "./redisUtils";
+import { createWorkspaceNginxConfig, generateSubdomain } from "./nginxUtils";
+import { getAllInstancesInfo } from "./tiers";
+import logger from "./logger";
+
+/**
+ * A stopped instance with an Owner tag was hibernated: record it as such so
+ * the owner resumes it and the retention sweep still expires it. Retention
+ * restarts from now.
+ */
+async function restoreHibernatedWorkspace(
+  instance: TierInstanceInfo,
+  requestId: string
+): Promise<WorkspaceInfo> {
+  const functionName = "restoreHibernatedWorkspace";
+
+  const subdomain =
+    instance.subdomain || generateSubdomain(instance.owner, instance.instanceId);
+  const now = Date.now().toString();
+  const workspace: WorkspaceInfo = {
+    instanceId: instance.instanceId,
+    tier: instance.tier,
+    publicIp: "",
+    customDomain: `https://${subdomain}.workspaces.codeclause.tech`,
+    subdomain,
+    lastSeen: now,
+    state: INSTANCE_STATE.HIBERNATED,
+    ts: now,
+  };
+  await hibernateUserWorkspace(instance.owner, workspace, requestId);
+
+  logger.info(
+    `[${requestId || "system"}] [${functionName}] Restored hibernated workspace from instance tags`,
+    { userId: instance.owner, instanceId: instance.instanceId, subdomain }
+  );
+
+  return workspace;
+}
+
+/**
+ * Recreate ws:<userId>, inst:<id> and the nginx site for an instance whose
+ * Owner tag names a user. Instances tagged before Subdomain tags existed get
+ * a new subdomain derived from the owner.
+ */
+export async function restoreWorkspaceFromInstance(
+  instance: TierInstanceInfo,
+  requestId: string
+): Promise<WorkspaceInfo> {
+  const functionName = "restoreWorkspaceFromInstance";
+
+  if (instance.isHibernated) {
+    return restoreHibernatedWorkspace(instance, requestId);
+  }
+
+  const publicIp =
+    instance.publicIp ||
+    (await computeProvider.getInstanceIP(instance.instanceId, requestId));
+  if (!publicIp) {
+    throw new Error(`Instance ${instance.instanceId} has no public IP`);
+  }
+
+  const subdomain =
+    instance.subdomain || generateSubdomain(instance.owner, instance.instanceId);
+  if (!instance.subdomain) {
+    await computeProvider.tagInstance(
+      instance.instanceId,
+      instance.owner,
+      requestId,
+      subdomain
+    );
+  }
+
+  await createWorkspaceNginxConfig(subdomain, publicIp);
+
+  // lastSeen starts now so the user gets a full idle window to reconnect
+  const now = Date.now().toString();
+  const workspace: WorkspaceInfo = {
+    instanceId: instance.instanceId,
+    tier: instance.tier,
+    publicIp,
+    customDomain: `https://${subdomain}.workspaces.codeclause.tech`,
+    subdomain,
+    lastSeen: now,
+    state: INSTANCE_STATE.RUNNING,
+    ts: now,
+  };
+  await setUserWorkspace(instance.owner, workspace, requestId);
+  // The original start time is lost with the old state; bill from now
+  await startUsageSession(
+    instance.owner,
+    instance.instanceId,
+    instance.tier,
+    requestId
+  );
+
+  if (!instance.isProtected) {
+    await computeProvider.protectActiveInstances([instance.instanceId], requestId);
+  }
+
+  logger.info(
+    `[${requestId || "system"}] [${functionName}] Restored workspace from instance tags`,
+    {
+      userId: instance.owner,
+      instanceId: instance.instanceId,
+      subdomain,
+      subdomainRegenerated: !instance.subdomain,
+    }
+  );
+
+  return workspace;
+}
+
+/**
+ * Rebuild the tier pools, inst:* and ws:* from the provider's instances, their
+ * tier's group and their Owner/Subdomain tags, e.g. after Redis was flushed or replaced. State that
+ * Redis already holds is left alone, so this is safe to run at every start.
+ * Instances an allocation is still setting up are skipped: they are still
+ * tagged UNASSIGNED but must not go back to the pool.
+ */
+export async function recoverStateFromProvider(
+  requestId: string
+): Promise<RecoveryResult> {
+  const functionName = "recoverStateFromProvider";
+  logger.info(
+    `[${requestId || "system"}] [${functionName}] Recovering state from instance tags`,
+    { provider: computeProvider.name }
+  );
+
+  const result: RecoveryResult = {
+    restoredWorkspaces: [],
+    restoredSpares: [],
+    skippedInstances: [],
+    errors: [],
+  };
+
+  const [instances, pool, mappings, allocating] = await Promise.all([
+    getAllInstancesInfo(requestId),
+    getWarmPoolMembers(requestId),
+    getInstanceMappings(requestId),
+    getAllocatingInstances(requestId),
+  ]);
+  const poolSet = new Set(pool);
+
+  for (const instance of instances) {
+    const { instanceId, owner } = instance;
+
+    try {
+      if (poolSet.has(instanceId) || mappings.has(instanceId)) {
+        continue;
+      }
+
+      if (allocating.has(instanceId)) {
+        result.skippedInstances.push(instanceId);
+        continue;
+      }
+
+      if (owner === "UNASSIGNED") {
+        await addToWarmPool(instanceId, instance.tier, requestId);
+        result.restoredSpares.push(instanceId);
+        continue;
+      }
+
+      if (!instance.isActive) {
+        // Never tagged: the launch webhook or reconciler will pick it up
+        result.skippedInstances.push(instanceId);
+        continue;
+      }
+
+      const existing = await getUserWorkspace(owner, requestId);
+      if (existing) {
+        // Redis knows this user; a tag left on a released instance is drift
+        // for the reconciler, not lost state
+        result.skippedInstances.push(instanceId);
+        continue;
+      }
+
+      const workspace = await restoreWorkspaceFromInstance(instance, requestId);
+      result.restoredWorkspaces.push({
+        userId: owner,
+        instanceId,
+        subdomain: workspace.subdomain,
+      });
+    } catch (error) {
+      const message = `${instanceId}: ${error instanceof Error ? error.message : "Unknown error"
+        }`;
+      result.errors.push(message);
+      logger.error(
+        `[${requestId || "system"}] [${functionName}] Failed to recover instance`,
+        { instanceId, owner, error: message }
+      );
+    }
+  }
+
+  logger.info(
+    `[${requestId || "system"}] [${functionName}] State recovery completed`,
+    {
+      instances: instances.length,
+      restoredWorkspaces: result.restoredWorkspaces.length,
+      restoredSpares: result.restoredSpares.length,
+      skippedInstances: result.skippedInstances.length,
+      errors: result.errors.length,
+    }
+  );
+
+  return result;
+}
@@ -0,0 +1,56 @@
+import computeProvider from "../providers";
+import { DEFAULT_TIER, WORKSPACE_TIERS } from "../config/awsConfig";
+import { TierInstanceInfo, WorkspaceTier } from "../types";
+
+for (const tier of WORKSPACE_TIERS) {
+  if (
+    !/^[a-z0-9-]+$/.test(tier.name || "") ||
+    !tier.group ||
+    !Number.isInteger(tier.warmSpares) ||
+    !Number.isInteger(tier.maxMachines)
+  ) {
+    throw new Error(
+      `Invalid WORKSPACE_TIERS entry ${JSON.stringify(
+        tier
+      )}: expected { name: [a-z0-9-]+, group, warmSpares, maxMachines }`
+    );
+  }
+}
+
+if (!WORKSPACE_TIERS.some((tier) => tier.name === DEFAULT_TIER)) {
+  throw new Error(`DEFAULT_TIER "${DEFAULT_TIER}" is not in WORKSPACE_TIERS`);
+}
+
+export function getTier(name: string): WorkspaceTier | undefined {
+  return WORKSPACE_TIERS.find((tier) => tier.name === name);
+}
+
+export function requireTier(name: string): WorkspaceTier {
+  const tier = getTier(name);
+  if (!tier) {
+    throw new Error(`Unknown workspace tier "${name}"`);
+  }
+  return tier;
+}
+
+export function getTierByGroup(group: string): WorkspaceTier | undefined {
+  return WORKSPACE_TIERS.find((tier) => tier.group === group);
+}
+
+/**
+ * Instances of every tier's group, labelled with their tier
+ */
+export async function getAllInstancesInfo(
+  requestId: string
+): Promise<TierInstanceInfo[]> {
+  const perTier = await Promise.all(
+    WORKSPACE_TIERS.map(async (tier) => {
+      const instances = await computeProvider.getInstancesInfo(
+        tier.group,
+        requestId
+      );
+      return instances.map((instance) => ({ ...instance, tier: tier.name }));
+    })
+  );
+  return perTier.flat();
+}
@@ -0,0 +1,72 @@
+import { UsageReport } from "../types";
+import { getUsageSessions } from "./redisUtils";
+import logger from "./logger";
+
+const DEFAULT_RANGE_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+function parseTimestamp(value: unknown): number | null {
+  if (typeof value !== "string" || !value.trim()) {
+    return null;
+  }
+  // Epoch milliseconds or anything Date.parse understands (e.g. 2024-05-01)
+  const parsed = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Read from/to query parameters. Both are optional: to defaults to now and
+ * from to 30 days before to.
+ */
+export function parseUsageRange(query: {
+  from?: unknown;
+  to?: unknown;
+}): { from: number; to: number } | { error: string } {
+  const to = query.to === undefined ? Date.now() : parseTimestamp(query.to);
+  if (to === null) {
+    return { error: "to must be epoch milliseconds or an ISO date" };
+  }
+
+  const from =
+    query.from === undefined ? to - DEFAULT_RANGE_MS : parseTimestamp(query.from);
+  if (from === null) {
+    return { error: "from must be epoch milliseconds or an ISO date" };
+  }
+  if (from > to) {
+    return { error: "from must not be after to" };
+  }
+
+  return { from, to };
+}
+
+/**
+ * Sessions started in the range with their durations. Open sessions count
+ * up to now.
+ */
+export async function getUsageReport(
+  from: number,
+  to: number,
+  requestId: string,
+  userId?: string
+): Promise<UsageReport> {
+  const functionName = "getUsageReport";
+  const now = Date.now();
+
+  const raw = await getUsageSessions(from, to, requestId, { userId });
+  const sessions = raw.map((session) => ({
+    ...session,
+    durationMs: Number(session.endedAt || now) - Number(session.startedAt),
+  }));
+
+  const byUser: Record<string, number> = {};
+  for (const session of sessions) {
+    byUser[session.userId] = (byUser[session.userId] || 0) + session.durationMs;
+  }
+  const totalMs = sessions.reduce((sum, s) => sum + s.durationMs, 0);
+
+  logger.debug(
+    `[${requestId || "system"}] [${functionName}] Built usage report`,
+    { userId, from, to, sessions: sessions.length, totalMs }
+  );
+
+  return { from, to, sessions, totalMs, byUser };
+}
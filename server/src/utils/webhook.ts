@@ -1,15 +1,21 @@
 import { Request, Response } from "express";
 
-import { DescribeInstancesCommand } from "@aws-sdk/client-ec2";
-import { ec2Client } from "../config/awsConfig";
-import { tagInstance } from "./awsUtils";
+import computeProvider from "../providers";
+import { DEFAULT_TIER } from "../config/awsConfig";
+import { InstanceLifecycleEvent } from "../types";
 import {
-  addToWarmPool,
   removeFromWarmPool,
   getUserFromInstance,
   cleanupUserData,
+  endUsageSession,
+  getInterruptionNotice,
 } from "./redisUtils";
+import { returnInstanceToPool } from "./machineManager";
+import { handleSpotInterruption } from "./spotInterruption";
+import { recordAuditEvent } from "./audit";
+import { getTier, getTierByGroup } from "./tiers";
 import logger from "./logger";
+import { AUDIT_ACTION, AUDIT_REASON, USAGE_END_REASON } from "../lib/enum";
 
 interface SNSMessage {
   Type: string;
@@ -49,85 +55,34 @@ interface ASGLifecycleEvent {
   Cause: string;
 }
 
-interface InstanceReadinessCheck {
-  hasPublicIp: boolean;
-  isRunning: boolean;
+// EventBridge event forwarded to the same SNS topic by a rule on
+// "EC2 Spot Instance Interruption Warning"
+interface SpotInterruptionEvent {
+  "detail-type": string;
+  source: string;
+  time: string;
+  detail: {
+    "instance-id": string;
+    "instance-action": string;
+  };
 }
 
+const SPOT_INTERRUPTION_DETAIL_TYPE = "EC2 Spot Instance Interruption Warning";
+
 function verifySNSSignature(message: SNSMessage): boolean {
   return true;
 }
 
-async function checkInstanceReadiness(
-  instanceId: string,
-  requestId: string
-): Promise<InstanceReadinessCheck> {
-  const functionName = "checkInstanceReadiness";
-  logger.debug(
-    `[${requestId || "system"}] [${functionName}] Checking instance readiness`,
-    { instanceId }
-  );
-
-  try {
-    const response = await ec2Client.send(
-      new DescribeInstancesCommand({ InstanceIds: [instanceId] })
-    );
-    const instance = response.Reservations?.[0]?.Instances?.[0];
-
-    if (!instance) {
-      logger.warn(
-        `[${requestId || "system"}] [${functionName}] Instance not found`,
-        { instanceId }
-      );
-      return {
-        hasPublicIp: false,
-        isRunning: false,
-      };
-    }
-
-    const hasPublicIp = !!instance.PublicIpAddress;
-    const isRunning = instance.State?.Name === "running";
-
-    logger.debug(
-      `[${
-        requestId || "system"
-      }] [${functionName}] Instance readiness check completed`,
-      {
-        instanceId,
-        hasPublicIp,
-        isRunning,
-        state: instance.State?.Name,
-        publicIp: instance.PublicIpAddress,
-      }
-    );
-
-    return { hasPublicIp, isRunning };
-  } catch (error) {
-    logger.error(
-      `[${
-        requestId || "system"
-      }] [${functionName}] Failed to check instance readiness`,
-      {
-        instanceId,
-        error: error instanceof Error ? error.message : "Unknown error",
-      }
-    );
-    return {
-      hasPublicIp: false,
-      isRunning: false,
-    };
-  }
-}
-
 async function processNewInstanceWithRetries(
   instanceId: string,
+  tier: string,
   maxAttempts: number = 3,
   requestId: string
 ): Promise<boolean> {
   const functionName = "processNewInstanceWithRetries";
   logger.info(
     `[${requestId || "system"}] [${functionName}] Processing new instance`,
-    { instanceId, maxAttempts }
+    { instanceId, tier, maxAttempts }
   );
 
   for (let attempt = 1; attempt <= maxAttempts; attempt++) {
@@ -139,11 +94,12 @@ async function processNewInstanceWithRetries(
         { instanceId, attempt }
       );
 
-      const readiness = await checkInstanceReadiness(instanceId, requestId);
+      const readiness = await computeProvider.checkInstanceReadiness(instanceId, requestId);
 
       if (readiness.isRunning && readiness.hasPublicIp) {
-        await tagInstance(instanceId, "UNASSIGNED", requestId);
-        await addToWarmPool(instanceId, requestId);
+        await computeProvider.tagInstance(instanceId, "UNASSIGNED", requestId);
+        // Waiting users of the tier are served before the instance is pooled
+        await returnInstanceToPool(instanceId, tier, requestId);
 
         logger.info(
           `[${
@@ -197,9 +153,14 @@ async function processNewInstanceWithRetries(
   return false;
 }
 
+/**
+ * The provider reports an instance gone: drop it from Redis and record who
+ * lost it. cause is the ASG's explanation, when it sends one.
+ */
 async function processTerminatedInstance(
   instanceId: string,
-  requestId: string
+  requestId: string,
+  cause?: string
 ): Promise<void> {
   const functionName = "processTerminatedInstance";
   logger.info(
@@ -230,6 +191,11 @@ async function processTerminatedInstance(
         { instanceId, userId }
       );
       await cleanupUserData(userId, instanceId, requestId);
+      await endUsageSession(
+        userId,
+        USAGE_END_REASON.INSTANCE_TERMINATED,
+        requestId
+      );
     } else {
       logger.debug(
         `[${
@@ -239,6 +205,20 @@ async function processTerminatedInstance(
       );
     }
 
+    // The interruption notice outlives the instance for a few minutes
+    const interrupted = await getInterruptionNotice(instanceId, requestId);
+    await recordAuditEvent(
+      {
+        action: AUDIT_ACTION.INSTANCE_TERMINATED,
+        reason: interrupted ? AUDIT_REASON.SPOT : AUDIT_REASON.ASG,
+        actor: computeProvider.name,
+        ...(userId && { userId }),
+        instanceId,
+        ...(cause && { details: { cause } }),
+      },
+      requestId
+    );
+
     logger.info(
       `[${
         requestId || "system"
@@ -275,13 +255,23 @@ async function handleASGLifecycleEvent(
   const instanceId = event.EC2InstanceId;
 
   if (event.Event === "autoscaling:EC2_INSTANCE_LAUNCH") {
+    const tier = getTierByGroup(event.AutoScalingGroupName);
+    if (!tier) {
+      logger.warn(
+        `[${
+          requestId || "system"
+        }] [${functionName}] Ignoring launch in a group no tier uses`,
+        { instanceId, asgName: event.AutoScalingGroupName }
+      );
+      return;
+    }
     logger.info(
       `[${
         requestId || "system"
       }] [${functionName}] Processing instance launch event`,
-      { instanceId, asgName: event.AutoScalingGroupName }
+      { instanceId, asgName: event.AutoScalingGroupName, tier: tier.name }
     );
-    await processNewInstanceWithRetries(instanceId, 3, requestId);
+    await processNewInstanceWithRetries(instanceId, tier.name, 3, requestId);
   } else if (event.Event === "autoscaling:EC2_INSTANCE_TERMINATE") {
     logger.info(
       `[${
@@ -289,7 +279,7 @@ async function handleASGLifecycleEvent(
       }] [${functionName}] Processing instance terminate event`,
       { instanceId, asgName: event.AutoScalingGroupName }
     );
-    await processTerminatedInstance(instanceId, requestId);
+    await processTerminatedInstance(instanceId, requestId, event.Cause);
   } else {
     logger.debug(
       `[${
@@ -303,6 +293,38 @@ async function handleASGLifecycleEvent(
   }
 }
 
+/**
+ * Lifecycle events reported by providers without an SNS webhook
+ */
+export async function handleInstanceLifecycleEvent(
+  event: InstanceLifecycleEvent,
+  instanceId: string,
+  group: string,
+  requestId: string
+): Promise<void> {
+  const functionName = "handleInstanceLifecycleEvent";
+  logger.info(
+    `[${requestId || "system"}] [${functionName}] Processing ${event} event`,
+    { instanceId, group, provider: computeProvider.name }
+  );
+
+  if (event === "launch") {
+    const tier = getTierByGroup(group);
+    if (!tier) {
+      logger.warn(
+        `[${
+          requestId || "system"
+        }] [${functionName}] Ignoring launch in a group no tier uses`,
+        { instanceId, group }
+      );
+      return;
+    }
+    await processNewInstanceWithRetries(instanceId, tier.name, 3, requestId);
+  } else {
+    await processTerminatedInstance(instanceId, requestId);
+  }
+}
+
 export async function webhookHandler(
   req: Request,
   res: Response
@@ -351,7 +373,7 @@ export async function webhookHandler(
         return;
       }
 
-      let lifecycleEvent: ASGLifecycleEvent;
+      let lifecycleEvent: ASGLifecycleEvent | SpotInterruptionEvent;
       try {
         lifecycleEvent = JSON.parse(snsMessage.Message);
       } catch (error) {
@@ -366,16 +388,54 @@ export async function webhookHandler(
         return;
       }
 
+      if ("detail-type" in lifecycleEvent) {
+        const interruption = lifecycleEvent;
+        if (
+          interruption["detail-type"] !== SPOT_INTERRUPTION_DETAIL_TYPE ||
+          !interruption.detail?.["instance-id"]
+        ) {
+          logger.debug(
+            `[${requestId}] [${functionName}] Ignoring unsupported EventBridge event`,
+            {
+              messageId: snsMessage.MessageId,
+              detailType: interruption["detail-type"],
+            }
+          );
+          res.status(200).json({ message: "Event ignored" });
+          return;
+        }
+
+        logger.info(
+          `[${requestId}] [${functionName}] Processing spot interruption warning`,
+          {
+            messageId: snsMessage.MessageId,
+            instanceId: interruption.detail["instance-id"],
+            action: interruption.detail["instance-action"],
+          }
+        );
+
+        setImmediate(() =>
+          handleSpotInterruption(
+            interruption.detail["instance-id"],
+            interruption.time,
+            requestId
+          )
+        );
+        res.status(200).json({ message: "Event received and processing" });
+        return;
+      }
+
+      const asgEvent = lifecycleEvent;
       logger.info(
         `[${requestId}] [${functionName}] Processing SNS notification`,
         {
           messageId: snsMessage.MessageId,
-          event: lifecycleEvent.Event,
-          instanceId: lifecycleEvent.EC2InstanceId,
+          event: asgEvent.Event,
+          instanceId: asgEvent.EC2InstanceId,
         }
       );
 
-      setImmediate(() => handleASGLifecycleEvent(lifecycleEvent, requestId));
+      setImmediate(() => handleASGLifecycleEvent(asgEvent, requestId));
       res.status(200).json({ message: "Event received and processing" });
       return;
     }
@@ -405,7 +465,7 @@ export async function manualAddToWarmPool(
   );
 
   try {
-    const { instanceId } = req.body;
+    const { instanceId, tier = DEFAULT_TIER } = req.body;
 
     if (!instanceId) {
       logger.error(
@@ -415,13 +475,23 @@ export async function manualAddToWarmPool(
       return;
     }
 
+    if (!getTier(tier)) {
+      logger.error(`[${requestId}] [${functionName}] Unknown tier in request`, {
+        instanceId,
+        tier,
+      });
+      res.status(400).json({ error: `Unknown tier "${tier}"` });
+      return;
+    }
+
     logger.info(
       `[${requestId}] [${functionName}] Processing manual warm pool addition`,
-      { instanceId }
+      { instanceId, tier }
     );
 
     const success = await processNewInstanceWithRetries(
       instanceId,
+      tier,
       3,
       requestId
     );